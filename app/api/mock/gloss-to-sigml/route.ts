@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { glossToSigmlRequestSchema, type GlossToSigmlResponse } from "@/app/lib/backend";
+import { isMockBackendEnabled, mockGlossToSigml } from "@/app/lib/mock-backend";
+
+export const dynamic = "force-dynamic";
+
+/** Mock of the backend's `/gloss-to-sigml` (NEXT_PUBLIC_MOCK_BACKEND=1 only). */
+export async function POST(req: Request) {
+  if (!isMockBackendEnabled()) return NextResponse.json({ error: "Mock backend is disabled" }, { status: 404 });
+
+  const parsed = glossToSigmlRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "Expected { gloss }" }, { status: 400 });
+
+  const body: GlossToSigmlResponse = { sigml: mockGlossToSigml(parsed.data.gloss) };
+  return NextResponse.json(body);
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { textToGlossRequestSchema, type TextToGlossResponse } from "@/app/lib/backend";
+import { isMockBackendEnabled, mockTextToGloss } from "@/app/lib/mock-backend";
+
+export const dynamic = "force-dynamic";
+
+/** Mock of the backend's `/text-to-gloss` (NEXT_PUBLIC_MOCK_BACKEND=1 only). */
+export async function POST(req: Request) {
+  if (!isMockBackendEnabled()) return NextResponse.json({ error: "Mock backend is disabled" }, { status: 404 });
+
+  const parsed = textToGlossRequestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: "Expected { text }" }, { status: 400 });
+
+  const body: TextToGlossResponse = { gloss: mockTextToGloss(parsed.data.text) };
+  return NextResponse.json(body);
+}
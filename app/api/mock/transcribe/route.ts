@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { isMockBackendEnabled, mockTranscription } from "@/app/lib/mock-backend";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Mock of the backend's `/transcribe`: multipart `{ audio, locale? }` → canned `{ text }`. */
+export async function POST(req: Request) {
+  if (!isMockBackendEnabled()) return NextResponse.json({ error: "Mock backend is disabled" }, { status: 404 });
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Expected multipart/form-data" }, { status: 400 });
+  }
+
+  const audio = form.get("audio");
+  if (!(audio instanceof Blob) || audio.size === 0) {
+    return NextResponse.json({ error: "Missing audio segment" }, { status: 400 });
+  }
+
+  return NextResponse.json({ text: mockTranscription(audio) });
+}
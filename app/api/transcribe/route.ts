@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import {
+  createAzureProvider,
+  createBackendProvider,
+  createOpenAIProvider,
+  DEFAULT_AZURE_TRANSCRIBER_URL,
+  DEFAULT_OPENAI_TRANSCRIBER_URL,
+  isUpstreamProviderId,
+  type TranscriptionProvider,
+  type UpstreamProviderId,
+} from "@/app/lib/transcription";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Transcription proxy.
+ *
+ * Accepts multipart `{ audio, locale? }`, attaches the credentials from
+ * server-only env (AZURE_SPEECH_KEY, OPENAI_TRANSCRIBER_KEY, …) and returns
+ * `{ text, provider }` regardless of which upstream answered. The upstream is
+ * chosen by TRANSCRIPTION_PROVIDER alone; clients cannot pick it. Upstream
+ * failures are logged here and reported to the client without details.
+ */
+
+// Upper bound for one VAD segment; 16 kHz mono PCM is ~32 KB/s
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+const serverProvider = (id: UpstreamProviderId): TranscriptionProvider | null => {
+  switch (id) {
+    case "azure": {
+      const apiKey = process.env.AZURE_SPEECH_KEY;
+      if (!apiKey) return null;
+      return createAzureProvider({ url: process.env.AZURE_SPEECH_URL || DEFAULT_AZURE_TRANSCRIBER_URL, apiKey });
+    }
+    case "openai":
+      return createOpenAIProvider({
+        url: process.env.OPENAI_TRANSCRIBER_URL || DEFAULT_OPENAI_TRANSCRIBER_URL,
+        apiKey: process.env.OPENAI_TRANSCRIBER_KEY,
+        model: process.env.OPENAI_TRANSCRIBER_MODEL,
+      });
+    case "backend":
+      return createBackendProvider({
+        baseUrl: process.env.API_URL || process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000",
+      });
+  }
+};
+
+export async function POST(req: Request) {
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Expected multipart/form-data" }, { status: 400 });
+  }
+
+  const audio = form.get("audio");
+  if (!(audio instanceof Blob) || audio.size === 0) {
+    return NextResponse.json({ error: "Missing audio segment" }, { status: 400 });
+  }
+  if (audio.size > MAX_AUDIO_BYTES) {
+    return NextResponse.json({ error: "Audio segment too large" }, { status: 413 });
+  }
+
+  const configured = process.env.TRANSCRIPTION_PROVIDER || "azure";
+  const provider = isUpstreamProviderId(configured) ? serverProvider(configured) : null;
+  if (!provider) {
+    console.error(`[api/transcribe] TRANSCRIPTION_PROVIDER "${configured}" is unknown or missing its credentials`);
+    return NextResponse.json({ error: "Transcription is not configured" }, { status: 503 });
+  }
+
+  const locale = typeof form.get("locale") === "string" ? (form.get("locale") as string) : "en-US";
+
+  try {
+    const { text } = await provider.transcribe({ audio, locale, signal: req.signal });
+    return NextResponse.json({ text, provider: provider.id });
+  } catch (e: any) {
+    console.error("[api/transcribe] upstream error", e);
+    return NextResponse.json({ error: "Transcription failed" }, { status: 502 });
+  }
+}
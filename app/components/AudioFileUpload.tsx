@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Button } from "@/app/components/ui/button";
+import { Badge } from "@/app/components/ui/badge";
+import { Progress } from "@/app/components/ui/progress";
+import { FileAudio, Loader2, Upload, X } from "lucide-react";
+import {
+    createTranscriptionProvider,
+    defaultTranscriptionProviderId,
+    type TranscriptionProvider,
+    type TranscriptionProviderId,
+} from "@/app/lib/transcription";
+import type { SegmentEvent } from "@/app/lib/pipeline";
+import { processSegmentAudio } from "@/app/lib/translate";
+import { decodeAudioFile } from "@/app/lib/audio/decode";
+import { segmentOffline } from "@/app/lib/vad/offline";
+import { loadVADSettings, resolveVADConfig, type VADConfig } from "@/app/lib/vad/config";
+
+interface AudioFileUploadProps {
+    /** Same events as VADVoiceRecorder, so the page treats file segments like live speech. */
+    onResult?: (event: SegmentEvent) => void;
+    /** BCP‑47 locale for transcription. Defaults to "en-US". */
+    transcriptionLocale?: string;
+    /** Provider id or instance; defaults to NEXT_PUBLIC_TRANSCRIPTION_PROVIDER, then "proxy". */
+    transcriptionProvider?: TranscriptionProviderId | TranscriptionProvider;
+    /** Detector parameters used when the user has not tuned the VAD in this browser. */
+    vadConfig?: Partial<VADConfig>;
+}
+
+type Stage = "idle" | "decoding" | "segmenting" | "translating" | "done" | "error";
+
+const ACCEPT = ".wav,.mp3,.ogg,.oga,audio/wav,audio/x-wav,audio/mpeg,audio/ogg";
+const DECODE_SR = 16000;
+// Segments sent to the transcription/translation backends at once
+const MAX_CONCURRENT = 2;
+
+const isSupportedFile = (file: File) => /^audio\//.test(file.type) || /\.(wav|mp3|ogg|oga)$/i.test(file.name);
+
+/**
+ * Runs a pre-recorded file (lecture, voicemail…) through the same VAD
+ * segmentation and transcription → gloss → SiGML pipeline as the microphone.
+ * Segmentation runs offline, much faster than real time; segments are then
+ * translated a few at a time.
+ */
+export function AudioFileUpload({
+    onResult,
+    transcriptionLocale = "en-US",
+    transcriptionProvider = defaultTranscriptionProviderId(),
+    vadConfig,
+}: AudioFileUploadProps) {
+    const [stage, setStage] = useState<Stage>("idle");
+    const [fileName, setFileName] = useState("");
+    const [segmentProgress, setSegmentProgress] = useState(0);
+    const [segmentsFound, setSegmentsFound] = useState(0);
+    const [segmentsDone, setSegmentsDone] = useState(0);
+    const [errorMessage, setErrorMessage] = useState("");
+    const [dragActive, setDragActive] = useState(false);
+
+    const inputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const busy = stage === "decoding" || stage === "segmenting" || stage === "translating";
+
+    const processFile = async (file: File) => {
+        if (!isSupportedFile(file)) {
+            setErrorMessage(`${file.name} is not a WAV, MP3 or OGG file`);
+            setStage("error");
+            return;
+        }
+
+        const abort = new AbortController();
+        abortRef.current = abort;
+        setFileName(file.name);
+        setErrorMessage("");
+        setSegmentProgress(0);
+        setSegmentsFound(0);
+        setSegmentsDone(0);
+
+        // Timestamps as if the file had been spoken starting now
+        const startedAt = Date.now();
+        const idPrefix = `file-${startedAt.toString(36)}`;
+        let seq = 0;
+
+        // Small in-process queue keeping at most MAX_CONCURRENT segments in flight
+        let active = 0;
+        const waiting: (() => void)[] = [];
+        const jobs: Promise<void>[] = [];
+
+        try {
+            const transcriber =
+                typeof transcriptionProvider === "string"
+                    ? createTranscriptionProvider(transcriptionProvider)
+                    : transcriptionProvider;
+            // Use the detector tuning the user picked for the microphone
+            const config = loadVADSettings()?.config ?? resolveVADConfig(vadConfig);
+
+            setStage("decoding");
+            const samples = await decodeAudioFile(file, DECODE_SR);
+
+            setStage("segmenting");
+            await segmentOffline(samples, DECODE_SR, {
+                config,
+                signal: abort.signal,
+                onProgress: (fraction) => setSegmentProgress(Math.round(fraction * 100)),
+                onSegment: (segment) => {
+                    const id = `${idPrefix}-${(seq++).toString(36)}`;
+                    const segmentStart = startedAt + (segment.startSample / DECODE_SR) * 1000;
+                    onResult?.({
+                        type: "captured",
+                        id,
+                        startedAt: segmentStart,
+                        endedAt: segmentStart + (segment.samples.length / DECODE_SR) * 1000,
+                    });
+                    setSegmentsFound((n) => n + 1);
+
+                    jobs.push(
+                        (async () => {
+                            if (active >= MAX_CONCURRENT) await new Promise<void>((resolve) => waiting.push(resolve));
+                            active++;
+                            try {
+                                if (abort.signal.aborted) {
+                                    // Release the slot in the capture order so later segments are not held back
+                                    onResult?.({ type: "discarded", id });
+                                    return;
+                                }
+                                await processSegmentAudio(
+                                    { id, samples: segment.samples, sampleRate: DECODE_SR },
+                                    { transcriber, locale: transcriptionLocale || "en-US", signal: abort.signal },
+                                    (event) => {
+                                        if (event.type === "failed" && !abort.signal.aborted) setErrorMessage(event.error);
+                                        onResult?.(event);
+                                    }
+                                );
+                            } finally {
+                                active--;
+                                waiting.shift()?.();
+                                setSegmentsDone((n) => n + 1);
+                            }
+                        })()
+                    );
+                },
+            });
+
+            setStage("translating");
+            await Promise.all(jobs);
+            setStage(abort.signal.aborted ? "idle" : "done");
+        } catch (e: any) {
+            await Promise.all(jobs);
+            if (abort.signal.aborted) {
+                setStage("idle");
+            } else {
+                console.error(e);
+                setErrorMessage(e?.message || "Could not process audio file");
+                setStage("error");
+            }
+        } finally {
+            if (abortRef.current === abort) abortRef.current = null;
+        }
+    };
+
+    const handleFiles = (files: FileList | null) => {
+        const file = files?.[0];
+        if (file && !busy) processFile(file);
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setDragActive(false);
+        handleFiles(e.dataTransfer.files);
+    };
+
+    useEffect(() => {
+        return () => abortRef.current?.abort();
+    }, []);
+
+    const progress = stage === "segmenting" ? segmentProgress : segmentsFound > 0 ? (segmentsDone / segmentsFound) * 100 : 0;
+
+    return (
+        <Card className="w-full">
+            <CardHeader className="pb-3">
+                <CardTitle className="flex items-center justify-between text-base">
+                    Audio File
+                    {stage !== "idle" && (
+                        <Badge variant={stage === "error" ? "destructive" : busy ? "default" : "secondary"} className="text-xs">
+                            {stage === "decoding" && "Decoding"}
+                            {stage === "segmenting" && "Detecting speech"}
+                            {stage === "translating" && "Translating"}
+                            {stage === "done" && "Done"}
+                            {stage === "error" && "Error"}
+                        </Badge>
+                    )}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <div
+                    role="button"
+                    tabIndex={0}
+                    aria-disabled={busy}
+                    onClick={() => !busy && inputRef.current?.click()}
+                    onKeyDown={(e) => {
+                        if ((e.key === "Enter" || e.key === " ") && !busy) inputRef.current?.click();
+                    }}
+                    onDragOver={(e) => {
+                        e.preventDefault();
+                        if (!busy) setDragActive(true);
+                    }}
+                    onDragLeave={() => setDragActive(false)}
+                    onDrop={handleDrop}
+                    className={`flex flex-col items-center justify-center gap-2 rounded border-2 border-dashed p-6 text-center text-xs transition-colors ${
+                        dragActive ? "border-primary bg-primary/5" : "border-muted-foreground/25"
+                    } ${busy ? "cursor-not-allowed opacity-60" : "cursor-pointer hover:border-primary/60"}`}
+                >
+                    <Upload className="h-5 w-5 text-muted-foreground" />
+                    <span className="text-muted-foreground">Drop a WAV, MP3 or OGG recording here, or click to browse</span>
+                    <input
+                        ref={inputRef}
+                        type="file"
+                        accept={ACCEPT}
+                        className="hidden"
+                        onChange={(e) => {
+                            handleFiles(e.target.files);
+                            e.target.value = "";
+                        }}
+                    />
+                </div>
+
+                {fileName && stage !== "idle" && (
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between gap-2 text-xs">
+                            <span className="flex min-w-0 items-center gap-1">
+                                <FileAudio className="h-3 w-3 flex-shrink-0" />
+                                <span className="truncate">{fileName}</span>
+                            </span>
+                            <span className="font-mono">
+                                {stage === "segmenting" && `${segmentProgress}%`}
+                                {(stage === "translating" || stage === "done") && `${segmentsDone}/${segmentsFound} segments`}
+                            </span>
+                        </div>
+                        <Progress value={stage === "done" ? 100 : progress} className="h-1" />
+                    </div>
+                )}
+
+                {busy && (
+                    <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        {stage === "decoding" ? "Decoding audio..." : `Processing${segmentsFound > 0 ? ` ${segmentsFound} segments` : ""}...`}
+                        <Button onClick={() => abortRef.current?.abort()} variant="ghost" size="sm" className="h-6 px-2 text-xs">
+                            <X className="mr-1 h-3 w-3" />
+                            Cancel
+                        </Button>
+                    </div>
+                )}
+
+                {errorMessage && (
+                    <div className="p-2 text-xs text-red-600 bg-red-50 border border-red-200 rounded">{errorMessage}</div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/app/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/app/components/ui/dropdown-menu";
+import { toast } from "@/app/components/ui/sonner";
+import { AudioLines, Captions, Download, FileJson, FileText, Loader2, PenLine } from "lucide-react";
+import {
+    downloadFile,
+    exportFileStem,
+    toGlossCorrections,
+    toSessionBundle,
+    toSrt,
+    toTextReport,
+    toWebVTT,
+    type ExportSegment,
+} from "@/app/lib/export";
+import { isGlossCorrected } from "@/app/lib/gloss";
+import { assembleSessionWav, toEaf } from "@/app/lib/elan";
+
+interface ExportMenuProps {
+    /** Segments to export, in capture order. */
+    segments: ExportSegment[];
+    locale: string;
+    title?: string;
+    size?: "sm" | "default";
+    /** Audio of a segment, if it was kept; used for the ELAN media file. */
+    loadAudio?: (segmentId: string) => Promise<Blob | undefined>;
+}
+
+/**
+ * Download the session as captions, a JSON bundle, a text report, an ELAN
+ * annotation file, or its gloss corrections as training data.
+ */
+export function ExportMenu({ segments, locale, title, size = "sm", loadAudio }: ExportMenuProps) {
+    const [exportingElan, setExportingElan] = useState(false);
+    const stem = exportFileStem(segments);
+    const corrections = segments.filter(isGlossCorrected).length;
+
+    const exportElan = async () => {
+        setExportingElan(true);
+        try {
+            const wav = loadAudio ? await assembleSessionWav(segments, loadAudio) : null;
+            const mediaFileName = wav ? `${stem}.wav` : undefined;
+            downloadFile(toEaf(segments, { locale, mediaFileName }), `${stem}.eaf`, "application/xml");
+            if (wav) downloadFile(wav, `${stem}.wav`);
+            else toast.info("No audio was kept for this session; the ELAN file has no linked media.");
+        } catch (e: any) {
+            console.error(e);
+            toast.error(`ELAN export failed: ${e?.message || e}`);
+        } finally {
+            setExportingElan(false);
+        }
+    };
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size={size} disabled={segments.length === 0 || exportingElan}>
+                    {exportingElan ? (
+                        <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                    ) : (
+                        <Download className="mr-1 h-4 w-4" />
+                    )}
+                    Export
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Captions</DropdownMenuLabel>
+                <DropdownMenuItem onSelect={() => downloadFile(toSrt(segments), `${stem}.srt`, "application/x-subrip")}>
+                    <Captions className="mr-2 h-4 w-4" />
+                    SubRip (.srt)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => downloadFile(toWebVTT(segments), `${stem}.vtt`, "text/vtt")}>
+                    <Captions className="mr-2 h-4 w-4" />
+                    WebVTT (.vtt)
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                    onSelect={() =>
+                        downloadFile(
+                            JSON.stringify(toSessionBundle(segments, { locale, title }), null, 2),
+                            `${stem}.json`,
+                            "application/json"
+                        )
+                    }
+                >
+                    <FileJson className="mr-2 h-4 w-4" />
+                    Session bundle (.json)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                    onSelect={() => downloadFile(toTextReport(segments, { locale, title }), `${stem}.txt`)}
+                >
+                    <FileText className="mr-2 h-4 w-4" />
+                    Text report (.txt)
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Annotation</DropdownMenuLabel>
+                <DropdownMenuItem onSelect={exportElan}>
+                    <AudioLines className="mr-2 h-4 w-4" />
+                    ELAN (.eaf + .wav)
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs text-muted-foreground">Training data</DropdownMenuLabel>
+                <DropdownMenuItem
+                    disabled={corrections === 0}
+                    onSelect={() =>
+                        downloadFile(toGlossCorrections(segments), `${stem}-gloss-corrections.jsonl`, "application/jsonl")
+                    }
+                >
+                    <PenLine className="mr-2 h-4 w-4" />
+                    Gloss corrections (.jsonl){corrections > 0 && ` · ${corrections}`}
+                </DropdownMenuItem>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -4,22 +4,284 @@ import React, { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/card";
 import { Badge } from "@/app/components/ui/badge";
 import { Button } from "@/app/components/ui/button";
-import { HandMetal, Copy, CheckCircle, Lightbulb, ArrowRight } from "lucide-react";
+import { Input } from "@/app/components/ui/input";
+import { Checkbox } from "@/app/components/ui/checkbox";
+import { Toggle } from "@/app/components/ui/toggle";
+import { HandMetal, Copy, CheckCircle, Lightbulb, ArrowRight, Pencil, Loader2, X, Plus, GitCompare, Repeat, Square } from "lucide-react";
+import { isSettled, type PipelineSegment, type SentenceSegment } from "@/app/lib/pipeline";
+import { diffGloss, glossTokens, isGlossCorrected } from "@/app/lib/gloss";
 
 interface GlossDisplayProps {
-  glossText: string;
+  /** Segments in capture order; each one's signs can be corrected on their own. */
+  segments: PipelineSegment[];
   isVisible: boolean;
   originalText?: string;
+  /** Save a corrected gloss; the page regenerates that segment's SiGML from it. */
+  onEditGloss?: (segment: SentenceSegment, gloss: string, options: { replay: boolean }) => void;
+  /** Sign one gloss token on the avatar. */
+  onPlaySign?: (segment: SentenceSegment, index: number) => void;
+  /** Sign being loaded or played; highlighted among the badges. */
+  activeSign?: { segmentId: string; index: number } | null;
+  loopSign?: boolean;
+  onLoopSignChange?: (loop: boolean) => void;
+  onStopSign?: () => void;
+  signError?: string;
+}
+
+interface GlossEditorProps {
+  initialTokens: string[];
+  onSave: (tokens: string[], replay: boolean) => void;
+  onCancel: () => void;
+}
+
+/** Token editor: drag to reorder, double-click to rename, × to delete, and an input to insert. */
+function GlossEditor({ initialTokens, onSave, onCancel }: GlossEditorProps) {
+  const [tokens, setTokens] = useState(initialTokens);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [renaming, setRenaming] = useState<number | null>(null);
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [newToken, setNewToken] = useState("");
+  const [replay, setReplay] = useState(true);
+
+  // Gloss tokens are upper-case words joined by hyphens (THANK-YOU)
+  const normalize = (value: string) => value.trim().toUpperCase().replace(/\s+/g, "-");
+
+  const move = (from: number, to: number) =>
+    setTokens((current) => {
+      const next = [...current];
+      const [token] = next.splice(from, 1);
+      next.splice(to, 0, token);
+      return next;
+    });
+
+  const insert = () => {
+    const token = normalize(newToken);
+    if (!token) return;
+    // New signs go after the selected one, or at the end
+    const at = selected === null ? tokens.length : selected + 1;
+    setTokens((current) => [...current.slice(0, at), token, ...current.slice(at)]);
+    setSelected(at);
+    setNewToken("");
+  };
+
+  return (
+    <div className="space-y-2 rounded border border-purple-200 bg-white p-2">
+      <div className="flex flex-wrap gap-1.5">
+        {tokens.map((token, index) =>
+          renaming === index ? (
+            <Input
+              key={index}
+              autoFocus
+              defaultValue={token}
+              onBlur={(e) => {
+                const value = normalize(e.target.value);
+                setTokens((current) => current.map((t, i) => (i === index && value ? value : t)));
+                setRenaming(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+                if (e.key === "Escape") setRenaming(null);
+              }}
+              className="h-7 w-28 text-xs font-semibold"
+              aria-label={`Rename ${token}`}
+            />
+          ) : (
+            <Badge
+              key={index}
+              draggable
+              onDragStart={() => setDragFrom(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragFrom !== null && dragFrom !== index) move(dragFrom, index);
+                setDragFrom(null);
+              }}
+              onDragEnd={() => setDragFrom(null)}
+              onClick={() => setSelected(selected === index ? null : index)}
+              onDoubleClick={() => setRenaming(index)}
+              variant="secondary"
+              className={`cursor-grab gap-1 px-2 py-1 text-sm font-semibold bg-purple-100 text-purple-800 hover:bg-purple-200 ${
+                selected === index ? "ring-2 ring-purple-400" : ""
+              } ${dragFrom === index ? "opacity-50" : ""}`}
+              title="Drag to reorder, double-click to rename"
+            >
+              {token}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setTokens((current) => current.filter((_, i) => i !== index));
+                  setSelected(null);
+                }}
+                aria-label={`Delete ${token}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        <Input
+          value={newToken}
+          onChange={(e) => setNewToken(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              insert();
+            }
+          }}
+          placeholder={selected === null ? "Add a sign at the end" : `Add a sign after ${tokens[selected]}`}
+          className="h-7 text-xs"
+        />
+        <Button variant="outline" size="sm" onClick={insert} disabled={!newToken.trim()} className="h-7 px-2 text-xs">
+          <Plus className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-1.5 text-xs text-gray-600">
+          <Checkbox checked={replay} onCheckedChange={(checked) => setReplay(checked === true)} />
+          Sign it again
+        </label>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={onCancel} className="h-7 px-2 text-xs">
+            Cancel
+          </Button>
+          <Button size="sm" onClick={() => onSave(tokens, replay)} disabled={tokens.length === 0} className="h-7 px-2 text-xs">
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface GlossSegmentProps {
+  segment: PipelineSegment;
+  indexOffset: number;
+  onEdit?: GlossDisplayProps["onEditGloss"];
+  onPlaySign?: GlossDisplayProps["onPlaySign"];
+  /** Index of this segment's sign that is being practiced, if any. */
+  activeIndex: number | null;
+}
+
+function GlossSegment({ segment, indexOffset, onEdit, onPlaySign, activeIndex }: GlossSegmentProps) {
+  const [editing, setEditing] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+
+  const signs = glossTokens(segment.gloss);
+  const editable = !!onEdit && isSettled(segment) && segment.status !== "failed";
+  const corrected = isGlossCorrected(segment);
+
+  if (editing) {
+    return (
+      <GlossEditor
+        initialTokens={signs}
+        onCancel={() => setEditing(false)}
+        onSave={(tokens, replay) => {
+          setEditing(false);
+          const gloss = tokens.join(" ");
+          if (gloss !== signs.join(" ")) onEdit?.(segment, gloss, { replay });
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="group space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        {signs.map((sign, index) => (
+          <button
+            key={index}
+            onClick={() => onPlaySign?.(segment, index)}
+            disabled={!onPlaySign}
+            className="rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-purple-400"
+            title={onPlaySign ? `Sign ${sign}` : undefined}
+          >
+            <Badge
+              variant="secondary"
+              className={`px-2 py-1 text-sm font-semibold transition-all duration-300 ${
+                activeIndex === index
+                  ? "bg-purple-600 text-white hover:bg-purple-600"
+                  : "bg-purple-100 text-purple-800 hover:bg-purple-200"
+              } ${onPlaySign ? "cursor-pointer" : "cursor-default"}`}
+              style={{ animationDelay: `${(indexOffset + index) * 50}ms` }}
+            >
+              {sign}
+            </Badge>
+          </button>
+        ))}
+        {segment.revising && <Loader2 className="h-3 w-3 animate-spin text-purple-600" />}
+        {segment.status === "no-sigml" && !segment.revising && (
+          <Badge
+            variant="outline"
+            className="px-1 py-0 text-[10px] text-amber-700 border-amber-200"
+            title="Not signed by the avatar; correct the gloss or text to generate SiGML"
+          >
+            no SiGML
+          </Badge>
+        )}
+        {corrected && (
+          <button onClick={() => setShowDiff((v) => !v)} aria-label="Compare with machine gloss">
+            <Badge variant="outline" className="px-1 py-0 text-[10px] text-purple-700 border-purple-200">
+              <GitCompare className="h-2.5 w-2.5 mr-0.5" />
+              corrected
+            </Badge>
+          </button>
+        )}
+        {editable && (
+          <button
+            onClick={() => setEditing(true)}
+            className="text-purple-600 opacity-0 transition-opacity group-hover:opacity-100 focus:opacity-100"
+            aria-label="Edit gloss"
+          >
+            <Pencil className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      {segment.revisionError && (
+        <p className="text-xs text-red-600">Signs not updated: {segment.revisionError}</p>
+      )}
+      {showDiff && corrected && (
+        <div className="flex flex-wrap items-center gap-1 border-l-2 border-purple-100 pl-2 text-xs font-mono">
+          <span className="mr-1 font-sans text-gray-500">Machine → human:</span>
+          {diffGloss(segment.machineGloss || "", segment.gloss).map((part, i) => (
+            <span
+              key={i}
+              className={
+                part.kind === "removed"
+                  ? "rounded bg-red-50 px-1 text-red-700 line-through"
+                  : part.kind === "added"
+                    ? "rounded bg-green-50 px-1 text-green-700"
+                    : "px-1 text-gray-600"
+              }
+            >
+              {part.token}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
 }
 
 export function GlossDisplay({
-  glossText,
+  segments,
   isVisible,
-  originalText
+  originalText,
+  onEditGloss,
+  onPlaySign,
+  activeSign,
+  loopSign = false,
+  onLoopSignChange,
+  onStopSign,
+  signError
 }: GlossDisplayProps) {
   const [copied, setCopied] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
 
+  const glossed = segments.filter((s) => s.gloss);
+  const glossText = glossed.map((s) => s.gloss).join(" ");
+
   // Trigger animation when gloss changes
   useEffect(() => {
     if (glossText && isVisible) {
@@ -76,16 +338,16 @@ export function GlossDisplay({
         {/* Gloss Signs Display */}
         <div className="bg-white/70 backdrop-blur-sm p-3 rounded border border-purple-100">
           {hasContent ? (
-            <div className="flex flex-wrap gap-2">
-              {signs.map((sign, index) => (
-                <Badge
-                  key={index}
-                  variant="secondary"
-                  className="px-2 py-1 text-sm font-semibold bg-purple-100 text-purple-800 hover:bg-purple-200 transition-all duration-300 cursor-default"
-                  style={{ animationDelay: `${index * 50}ms` }}
-                >
-                  {sign}
-                </Badge>
+            <div className="space-y-2">
+              {glossed.map((segment, i) => (
+                <GlossSegment
+                  key={segment.id}
+                  segment={segment}
+                  indexOffset={glossed.slice(0, i).reduce((n, s) => n + glossTokens(s.gloss).length, 0)}
+                  onEdit={onEditGloss}
+                  onPlaySign={onPlaySign}
+                  activeIndex={activeSign?.segmentId === segment.id ? activeSign.index : null}
+                />
               ))}
             </div>
           ) : (
@@ -95,6 +357,10 @@ export function GlossDisplay({
           )}
         </div>
 
+        {signError && (
+          <p className="text-xs text-red-600">{signError}</p>
+        )}
+
         {/* Statistics and Actions */}
         <div className="flex justify-between items-center">
           <div className="text-xs text-gray-600">
@@ -107,6 +373,32 @@ export function GlossDisplay({
 
           {hasContent && (
             <div className="flex gap-1">
+              {onPlaySign && (
+                <>
+                  {activeSign && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={onStopSign}
+                      className="border-purple-200 hover:bg-purple-50 h-7 px-2 text-xs"
+                    >
+                      <Square className="h-3 w-3 mr-1" />
+                      Stop
+                    </Button>
+                  )}
+                  <Toggle
+                    size="sm"
+                    variant="outline"
+                    pressed={loopSign}
+                    onPressedChange={onLoopSignChange}
+                    className="border-purple-200 h-7 px-2 text-xs data-[state=on]:bg-purple-100 data-[state=on]:text-purple-800"
+                    aria-label="Loop the selected sign"
+                  >
+                    <Repeat className="h-3 w-3 mr-1" />
+                    Loop
+                  </Toggle>
+                </>
+              )}
               <Button
                 variant="outline"
                 size="sm"
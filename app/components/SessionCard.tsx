@@ -0,0 +1,211 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { format, formatDistanceStrict } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Button } from "@/app/components/ui/button";
+import { Badge } from "@/app/components/ui/badge";
+import { Input } from "@/app/components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/app/components/ui/collapsible";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from "@/app/components/ui/alert-dialog";
+import { Check, ChevronDown, Pencil, Play, Trash2, Volume2, X } from "lucide-react";
+import { ExportMenu } from "@/app/components/ExportMenu";
+import { getSegmentAudio, type SessionRecord } from "@/app/lib/history";
+
+interface SessionCardProps {
+    session: SessionRecord;
+    onRename: (title: string) => void;
+    onDelete: () => void;
+}
+
+const playSegmentAudio = async (sessionId: string, segmentId: string) => {
+    const blob = await getSegmentAudio(sessionId, segmentId);
+    if (!blob) throw new Error("Audio not found");
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    audio.onended = () => URL.revokeObjectURL(url);
+    await audio.play();
+};
+
+/**
+ * One stored session on the history page: rename, delete, replay on the
+ * avatar, and an expandable list of its segments.
+ */
+export function SessionCard({ session, onRename, onDelete }: SessionCardProps) {
+    const [editing, setEditing] = useState(false);
+    const [title, setTitle] = useState(session.title);
+    const [audioError, setAudioError] = useState("");
+
+    const { segments } = session;
+    const endedAt = segments.length > 0 ? segments[segments.length - 1].endedAt : session.startedAt;
+
+    const commitRename = () => {
+        setEditing(false);
+        if (title.trim() !== session.title) onRename(title);
+    };
+
+    return (
+        <Card className="w-full">
+            <CardHeader className="pb-2">
+                <CardTitle className="flex items-center justify-between gap-2 text-base">
+                    {editing ? (
+                        <form
+                            className="flex flex-1 items-center gap-1"
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                commitRename();
+                            }}
+                        >
+                            <Input
+                                autoFocus
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Escape") {
+                                        setTitle(session.title);
+                                        setEditing(false);
+                                    }
+                                }}
+                                className="h-8 text-sm"
+                                aria-label="Session name"
+                            />
+                            <Button type="submit" variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Save name">
+                                <Check className="h-4 w-4" />
+                            </Button>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 w-8 p-0"
+                                aria-label="Cancel rename"
+                                onClick={() => {
+                                    setTitle(session.title);
+                                    setEditing(false);
+                                }}
+                            >
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </form>
+                    ) : (
+                        <span className="truncate">{session.title}</span>
+                    )}
+                    <div className="flex flex-shrink-0 items-center gap-1">
+                        <Button asChild size="sm" className="h-8">
+                            <Link href={`/?session=${encodeURIComponent(session.id)}`}>
+                                <Play className="mr-1 h-3 w-3" />
+                                Replay
+                            </Link>
+                        </Button>
+                        <ExportMenu
+                            segments={segments}
+                            locale={session.locale}
+                            title={session.title}
+                            loadAudio={async (segmentId) =>
+                                segments.find((s) => s.id === segmentId)?.hasAudio
+                                    ? getSegmentAudio(session.id, segmentId)
+                                    : undefined
+                            }
+                        />
+                        {!editing && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 w-8 p-0"
+                                aria-label="Rename session"
+                                onClick={() => {
+                                    setTitle(session.title);
+                                    setEditing(true);
+                                }}
+                            >
+                                <Pencil className="h-4 w-4" />
+                            </Button>
+                        )}
+                        <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-red-600" aria-label="Delete session">
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                                <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete this session?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                        &ldquo;{session.title}&rdquo; and its {segments.length} segments will be removed from
+                                        this browser. This cannot be undone.
+                                    </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+                                </AlertDialogFooter>
+                            </AlertDialogContent>
+                        </AlertDialog>
+                    </div>
+                </CardTitle>
+                <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                    <span>{format(session.startedAt, "EEE d MMM yyyy, HH:mm")}</span>
+                    <span>{formatDistanceStrict(endedAt, session.startedAt)}</span>
+                    <span>{segments.length} segments</span>
+                    <span>{session.locale}</span>
+                </div>
+            </CardHeader>
+            <CardContent>
+                <Collapsible>
+                    <CollapsibleTrigger className="group flex w-full items-center gap-1 text-left text-sm text-muted-foreground">
+                        <ChevronDown className="h-4 w-4 flex-shrink-0 transition-transform group-data-[state=open]:rotate-180" />
+                        <span className="truncate">{segments[0]?.transcription || "No segments"}</span>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="mt-2 space-y-2">
+                        {segments.map((segment) => (
+                            <div key={segment.id} className="rounded border p-2 text-sm">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-mono text-xs text-muted-foreground">
+                                        {format(segment.startedAt, "HH:mm:ss")}
+                                    </span>
+                                    {segment.hasAudio && (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-6 px-2 text-xs"
+                                            onClick={() => {
+                                                setAudioError("");
+                                                playSegmentAudio(session.id, segment.id).catch((e) =>
+                                                    setAudioError(e?.message || "Could not play audio")
+                                                );
+                                            }}
+                                        >
+                                            <Volume2 className="mr-1 h-3 w-3" />
+                                            Audio
+                                        </Button>
+                                    )}
+                                </div>
+                                <p>{segment.transcription}</p>
+                                <div className="mt-1 flex flex-wrap gap-1">
+                                    {segment.gloss.split(/\s+/).filter(Boolean).map((token, i) => (
+                                        <Badge key={i} variant="secondary" className="font-mono text-xs">
+                                            {token}
+                                        </Badge>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        {audioError && (
+                            <div className="p-2 text-xs text-red-600 bg-red-50 border border-red-200 rounded">{audioError}</div>
+                        )}
+                    </CollapsibleContent>
+                </Collapsible>
+            </CardContent>
+        </Card>
+    );
+}
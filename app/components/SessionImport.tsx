@@ -0,0 +1,163 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/app/components/ui/button";
+import { FileUp, X } from "lucide-react";
+import { parseSessionBundle, type SessionBundle } from "@/app/lib/export";
+
+interface SessionImportProps {
+    /** Called with a validated bundle; the page replaces its sentences with it. */
+    onImport: (bundle: SessionBundle) => void;
+}
+
+interface ImportReport {
+    fileName: string;
+    imported: number;
+    missing: { position: number; text: string }[];
+    error?: string;
+}
+
+const isJsonFile = (file: File) => file.type === "application/json" || /\.json$/i.test(file.name);
+
+const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes("Files");
+
+/**
+ * Loads a session bundle (the JSON export) from the Import button or from a
+ * file dropped anywhere on the page. Drops already handled by another drop
+ * zone, such as the audio file upload, are left alone.
+ */
+export function SessionImport({ onImport }: SessionImportProps) {
+    const [report, setReport] = useState<ImportReport | null>(null);
+    const [dragActive, setDragActive] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const importFile = async (file: File) => {
+        try {
+            const { bundle, missingSigml } = parseSessionBundle(await file.text());
+            onImport(bundle);
+            setReport({
+                fileName: file.name,
+                imported: bundle.segments.length,
+                missing: missingSigml.map((i) => ({
+                    position: i + 1,
+                    text: bundle.segments[i].transcription || bundle.segments[i].gloss,
+                })),
+            });
+        } catch (e: any) {
+            setReport({ fileName: file.name, imported: 0, missing: [], error: e?.message || "Could not import file" });
+        }
+    };
+    const importFileRef = useRef(importFile);
+    importFileRef.current = importFile;
+
+    useEffect(() => {
+        // Counts nested dragenter/dragleave pairs so the overlay doesn't flicker
+        let depth = 0;
+
+        const onDragEnter = (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            depth++;
+            setDragActive(true);
+        };
+        const onDragLeave = (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            depth = Math.max(0, depth - 1);
+            if (depth === 0) setDragActive(false);
+        };
+        const onDragOver = (e: DragEvent) => {
+            // Without this the browser opens the dropped file instead of firing drop
+            if (hasFiles(e)) e.preventDefault();
+        };
+        const onDrop = (e: DragEvent) => {
+            depth = 0;
+            setDragActive(false);
+            if (e.defaultPrevented || !hasFiles(e)) return;
+            e.preventDefault();
+            const file = e.dataTransfer?.files[0];
+            if (!file) return;
+            if (isJsonFile(file)) importFileRef.current(file);
+            else
+                setReport({
+                    fileName: file.name,
+                    imported: 0,
+                    missing: [],
+                    error: "Drop a .json session bundle here; recordings go in the Audio file tab",
+                });
+        };
+
+        window.addEventListener("dragenter", onDragEnter);
+        window.addEventListener("dragleave", onDragLeave);
+        window.addEventListener("dragover", onDragOver);
+        window.addEventListener("drop", onDrop);
+        return () => {
+            window.removeEventListener("dragenter", onDragEnter);
+            window.removeEventListener("dragleave", onDragLeave);
+            window.removeEventListener("dragover", onDragOver);
+            window.removeEventListener("drop", onDrop);
+        };
+    }, []);
+
+    return (
+        <>
+            <Button variant="ghost" size="sm" onClick={() => inputRef.current?.click()}>
+                <FileUp className="mr-1 h-4 w-4" />
+                Import
+            </Button>
+            <input
+                ref={inputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importFile(file);
+                    e.target.value = "";
+                }}
+            />
+
+            {dragActive && (
+                <div className="pointer-events-none fixed inset-4 z-50 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/80 text-sm font-medium">
+                    Drop a session bundle (.json) to present it
+                </div>
+            )}
+
+            {report && (
+                <div
+                    className={`fixed bottom-4 left-4 z-50 w-80 space-y-1 rounded border p-3 text-xs shadow-lg ${
+                        report.error || report.missing.length > 0
+                            ? "border-amber-200 bg-amber-50 text-amber-800"
+                            : "border-green-200 bg-green-50 text-green-800"
+                    }`}
+                    role="status"
+                >
+                    <div className="flex items-start justify-between gap-2">
+                        <span className="font-medium break-all">{report.fileName}</span>
+                        <button onClick={() => setReport(null)} aria-label="Dismiss import report">
+                            <X className="h-3 w-3" />
+                        </button>
+                    </div>
+                    {report.error ? (
+                        <p>{report.error}</p>
+                    ) : (
+                        <>
+                            <p>
+                                Imported {report.imported} segments
+                                {report.missing.length > 0 &&
+                                    `; ${report.missing.length} have no SiGML and are skipped until their gloss or text is corrected:`}
+                            </p>
+                            {report.missing.length > 0 && (
+                                <ul className="max-h-32 list-disc overflow-y-auto pl-4">
+                                    {report.missing.map(({ position, text }) => (
+                                        <li key={position}>
+                                            #{position} {text && <span className="opacity-75">{text}</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </>
+    );
+}
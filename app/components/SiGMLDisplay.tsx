@@ -1,45 +1,243 @@
 'use client'
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Card } from "@/app/components/ui/card";
 import { Badge } from "@/app/components/ui/badge";
+import { Button } from "@/app/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/app/components/ui/select";
-import { User } from 'lucide-react';
-
-interface SentenceSegment {
-  transcription: string;
-  gloss: string;
-  sigml: string;
-}
+import { Toggle } from "@/app/components/ui/toggle";
+import { User, Hand, Pause, Play, Square, SkipBack, SkipForward, ListRestart, ChevronUp, ChevronDown, X, Columns2, Plus } from 'lucide-react';
+import type { PipelineSegment, SentenceSegment } from '@/app/lib/pipeline';
+import type { ReplayRequest } from '@/app/hooks/use-segment-revisions';
+import type { SignPractice } from '@/app/hooks/use-sign-practice';
+import { useCWASA, type CWASAStatus } from '@/app/hooks/use-cwasa';
+import {
+  AVATAR_LABELS,
+  CWASA_AVATARS,
+  DEFAULT_AVATAR,
+  cwasa,
+  frameSignIndex,
+  isCWASAAvatar,
+  loadAvatarPreference,
+  saveAvatarPreference,
+  type CWASAAvatar,
+} from '@/app/lib/cwasa';
+import { GREETING_GLOSS, SIGML_SOURCE_LABELS, greetingSigml, sigmlForSource, type SigmlSource } from '@/app/lib/sigml';
+
+/** `machineGloss` lets a comparison slot sign the uncorrected variant. */
+type PlayableSentence = SentenceSegment & Pick<PipelineSegment, 'machineGloss'>;
+
+// av0 plus up to two comparison avatars
+const MAX_SLOTS = 3;
 
 interface SiGMLDisplayProps {
-  sentences: SentenceSegment[];
+  sentences: PlayableSentence[];
+  /** Changes when `sentences` are replaced wholesale (cleared or restored); playback starts over. */
+  sessionKey?: number;
   currentSegment: Partial<SentenceSegment>;
   isVisible: boolean;
+  /** Called with the segment id once its animation has finished. */
+  onSentencePlayed?: (id: string) => void;
+  /** Sign this sentence again next, e.g. after it was corrected. */
+  replayRequest?: ReplayRequest | null;
+  /** A single sign to sign now, holding the sentence queue until it is done. */
+  practice?: SignPractice | null;
+  /** Keep repeating `practice` until it is cleared. */
+  loopPractice?: boolean;
+  /** Called with `practice.requestedAt` once a non-looping practice sign has been signed. */
+  onPracticeDone?: (requestedAt: number) => void;
 }
 
-declare global {
-  interface Window {
-    CWASA: {
-      init: (config?: any) => void;
-      playSiGMLURL: (url: string) => void;
-      playSiGMLText: (text: string) => void;
-    };
-  }
+interface AvatarStageProps {
+  slot: number;
+  avatar: CWASAAvatar;
+  onAvatarChange: (avatar: string) => void;
+  avatarDisabled?: boolean;
+  status: CWASAStatus;
+  error: Error | null;
+  /** Shown in comparison mode: which SiGML variant this slot signs. */
+  source?: SigmlSource;
+  onSourceChange?: (source: SigmlSource) => void;
+  compact?: boolean;
+  actions?: React.ReactNode;
+}
+
+// One CWASA container with its avatar picker; CWASA renders into `.CWASAAvatar.av<slot>`
+const AvatarStage: React.FC<AvatarStageProps> = ({
+  slot,
+  avatar,
+  onAvatarChange,
+  avatarDisabled = false,
+  status,
+  error,
+  source,
+  onSourceChange,
+  compact = false,
+  actions,
+}) => (
+    <div className="flex flex-col items-center">
+      <div
+          style={{
+            width: compact ? '100%' : '300px',
+            maxWidth: '300px',
+            height: compact ? '220px' : '250px',
+            margin: '0 auto 12px auto',
+            border: '1px solid #e5e7eb',
+            borderRadius: '8px',
+            backgroundColor: 'white',
+            position: 'relative'
+          }}
+      >
+        <div className={`CWASAAvatar av${slot}`} style={{ width: '100%', height: '100%', textAlign: 'center' }} />
+        {status !== 'ready' && (
+            <div
+                style={{
+                  position: 'absolute',
+                  top: '50%',
+                  left: '50%',
+                  transform: 'translate(-50%, -50%)',
+                  textAlign: 'center',
+                  pointerEvents: 'none'
+                }}
+            >
+              <User size={48} className="text-accent mx-auto" />
+              {error ? (
+                  <p className="text-sm text-red-600 px-4">{error.message}</p>
+              ) : (
+                  <p className="text-muted-foreground">Loading 3D Avatar…</p>
+              )}
+            </div>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-2 mt-2">
+        <Select value={avatar} onValueChange={onAvatarChange} disabled={avatarDisabled}>
+          <SelectTrigger className={`h-8 text-xs ${compact ? 'w-[120px]' : 'w-[150px]'}`} aria-label={`Avatar ${slot + 1}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CWASA_AVATARS.map(name => (
+                <SelectItem key={name} value={name} className="text-xs">
+                  {AVATAR_LABELS[name]}
+                </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {source && onSourceChange && (
+            <Select value={source} onValueChange={value => onSourceChange(value as SigmlSource)}>
+              <SelectTrigger className="h-8 w-[130px] text-xs" aria-label={`SiGML for avatar ${slot + 1}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SIGML_SOURCE_LABELS) as SigmlSource[]).map(value => (
+                    <SelectItem key={value} value={value} className="text-xs">
+                      {SIGML_SOURCE_LABELS[value]}
+                    </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+        )}
+        {actions}
+      </div>
+      <div className={`CWASASpeed av${slot} mt-1`}></div>
+      <input type="text" className={`txtSiGMLURL av${slot}`} style={{ display: 'none' }} defaultValue="" />
+    </div>
+);
+
+interface ComparisonSlotProps extends Omit<AvatarStageProps, 'status' | 'error' | 'compact'> {
+  enabled: boolean;
+  onStatusChange: (slot: number, status: CWASAStatus) => void;
+}
+
+// Extra avatar slot (av1, av2) for the comparison view; reports its load status upwards
+const ComparisonSlot: React.FC<ComparisonSlotProps> = ({ enabled, onStatusChange, ...stage }) => {
+  const { status, error } = useCWASA({ slot: stage.slot, avatar: stage.avatar, enabled });
+
+  useEffect(() => {
+    onStatusChange(stage.slot, status);
+  }, [onStatusChange, stage.slot, status]);
+
+  return <AvatarStage {...stage} status={status} error={error} compact />;
+};
+
+interface PlayingDocument {
+  /** The avatar has reported activity for this document; set through `markStarted`. */
+  started: boolean;
+  /** Last sign index from `avatarframe`; stays -1 when this build's frames carry none. */
+  signIndex: number;
+  onSign?: (index: number) => void;
+  markStarted: () => void;
+  /** `byAvatar`: ended by the avatar's `animidle` rather than a timer or a takeover. */
+  done: (byAvatar?: boolean) => void;
 }
 
-export const SiGMLDisplay: React.FC<SiGMLDisplayProps> = ({ sentences, currentSegment, isVisible }) => {
-  const [selectedAvatar, setSelectedAvatar] = useState('luna');
-  const [cwasakLoaded, setCwasaLoaded] = useState(false);
+export const SiGMLDisplay: React.FC<SiGMLDisplayProps> = ({
+  sentences,
+  sessionKey = 0,
+  currentSegment,
+  isVisible,
+  onSentencePlayed,
+  replayRequest,
+  practice,
+  loopPractice = false,
+  onPracticeDone,
+}) => {
+  const [selectedAvatar, setSelectedAvatar] = useState<CWASAAvatar>(DEFAULT_AVATAR);
+  // The stored avatar is only readable after mount; hold CWASA until then so it inits once
+  const [avatarRestored, setAvatarRestored] = useState(false);
+  const [greeting, setGreeting] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [playedSentences, setPlayedSentences] = useState(0);
   const [currentlyPlayingGloss, setCurrentlyPlayingGloss] = useState<string>('');
   const [currentWordIndex, setCurrentWordIndex] = useState<number>(-1);
-
-  const initOnceRef = useRef(false);
-  const pendingSentencesRef = useRef<SentenceSegment[]>([]);
-  const playbackQueueRef = useRef<SentenceSegment[]>([]);
+  const [queuedSentences, setQueuedSentences] = useState<PlayableSentence[]>([]);
+  const [lastPlayed, setLastPlayed] = useState<PlayableSentence | null>(null);
+  const [paused, setPaused] = useState(false);
+  // Comparison view: avatars for av1, av2 and the SiGML variant each slot (av0 included) signs
+  const [extraAvatars, setExtraAvatars] = useState<CWASAAvatar[]>([]);
+  const [slotSources, setSlotSources] = useState<SigmlSource[]>(['current']);
+  const [extraStatus, setExtraStatus] = useState<Record<number, CWASAStatus>>({});
+
+  const {
+    status: cwasaStatus,
+    ready: cwasakLoaded,
+    error: cwasaError,
+    hasHooks,
+  } = useCWASA({ avatar: selectedAvatar, enabled: isVisible && avatarRestored });
+
+  const comparing = extraAvatars.length > 0;
+  const activeSlots = [0, ...extraAvatars.map((_, i) => i + 1)];
+  // Sentences start on every slot at once, so playback waits for all of them
+  const allSlotsReady = cwasakLoaded && extraAvatars.every((_, i) => extraStatus[i + 1] === 'ready');
+  const cwasaReadyRef = useRef(allSlotsReady);
+  cwasaReadyRef.current = allSlotsReady;
+  const activeSlotsRef = useRef(activeSlots);
+  activeSlotsRef.current = activeSlots;
+  const slotSourcesRef = useRef(slotSources);
+  slotSourcesRef.current = slotSources;
+
+  const pendingSentencesRef = useRef<PlayableSentence[]>([]);
+  // Ids of the session's sentences already handed to the queue; a restored sentence fixed later arrives mid-list
+  const queuedIdsRef = useRef(new Set<string>());
+  const playbackQueueRef = useRef<PlayableSentence[]>([]);
   const isPlayingRef = useRef(false);
+  // Timers below call playNextSentence from an old render; read the callback through a ref
+  const onSentencePlayedRef = useRef(onSentencePlayed);
+  onSentencePlayedRef.current = onSentencePlayed;
+  const onPracticeDoneRef = useRef(onPracticeDone);
+  onPracticeDoneRef.current = onPracticeDone;
+  const loopPracticeRef = useRef(loopPractice);
+  loopPracticeRef.current = loopPractice;
+  const practicingRef = useRef(false);
+  // Slots whose `animidle` has been seen to fire; only their documents wait for the avatar past the estimate
+  const idleSlotsRef = useRef(new Set<number>());
+  // Document each slot is signing now
+  const documentsRef = useRef(new Map<number, PlayingDocument>());
+  // Transport: `paused` holds the queue; an interrupt ends the current sentence early
+  const pausedRef = useRef(false);
+  const interruptRef = useRef<'skip' | 'drop' | null>(null);
+  const currentSentenceRef = useRef<PlayableSentence | null>(null);
+  // Set from an avatar switch until the new avatar has greeted; holds the queue meanwhile
+  const switchingAvatarRef = useRef(false);
+  const greetingRef = useRef(false);
 
   const ts = () => new Date().toISOString().slice(11, 23);
 
@@ -79,11 +277,59 @@ export const SiGMLDisplay: React.FC<SiGMLDisplayProps> = ({ sentences, currentSe
     return Math.max(1000, words.length * 800 + 200);
   };
 
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // Plays one SiGML document on `slot` and resolves when that avatar has
+  // finished it, or when another document takes over the slot; true when the
+  // avatar's `animidle` ended it. The document is timed by `estimatedMs` until
+  // a hook event arrives for it, and only on a slot whose `animidle` is known to
+  // fire does the estimate then become a generous guard against a lost one.
+  const playDocument = (sigml: string, estimatedMs: number, onSign?: (index: number) => void, slot = 0) =>
+    new Promise<boolean>((resolve, reject) => {
+      const documents = documentsRef.current;
+      documents.get(slot)?.done();
+      let guard: ReturnType<typeof setTimeout> | undefined;
+      const doc: PlayingDocument = {
+        started: false,
+        signIndex: -1,
+        onSign,
+        markStarted: () => {
+          if (doc.started) return;
+          doc.started = true;
+          if (!idleSlotsRef.current.has(slot)) return;
+          clearTimeout(guard);
+          guard = setTimeout(doc.done, estimatedMs * 3 + 5000);
+        },
+        done: (byAvatar = false) => {
+          clearTimeout(guard);
+          if (documents.get(slot) === doc) documents.delete(slot);
+          resolve(byAvatar);
+        },
+      };
+      documents.set(slot, doc);
+      guard = setTimeout(doc.done, estimatedMs);
+      try {
+        cwasa.play(sigml, slot);
+      } catch (e) {
+        clearTimeout(guard);
+        if (documents.get(slot) === doc) documents.delete(slot);
+        reject(e);
+      }
+    });
+
+  // Mirror the queue into state for the list; call after every change to playbackQueueRef
+  const syncQueue = () => setQueuedSentences([...playbackQueueRef.current]);
+
   // Sequential sentence player - waits for each animation to finish
   const playNextSentence = async () => {
     if (isPlayingRef.current || playbackQueueRef.current.length === 0) return;
+    // Held while a single sign is practiced (resumes when practice ends), while paused,
+    // while the avatar is switched or greets, and while any slot is (re)loading
+    if (practicingRef.current || pausedRef.current || switchingAvatarRef.current || greetingRef.current) return;
+    if (!cwasaReadyRef.current) return;
 
     const sentence = playbackQueueRef.current.shift();
+    syncQueue();
     if (!sentence || !sentence.sigml?.trim()) {
       // No valid sentence, try next
       setTimeout(playNextSentence, 50);
@@ -91,6 +337,8 @@ export const SiGMLDisplay: React.FC<SiGMLDisplayProps> = ({ sentences, currentSe
     }
 
     isPlayingRef.current = true;
+    currentSentenceRef.current = sentence;
+    interruptRef.current = null;
     setIsPlaying(true);
     setCurrentlyPlayingGloss(sentence.gloss);
 
@@ -100,22 +348,60 @@ export const SiGMLDisplay: React.FC<SiGMLDisplayProps> = ({ sentences, currentSe
 
     try {
       console.info(`[SB ${ts()}] playing sentence: "${preview(sentence.transcription, 60)}" → gloss: "${sentence.gloss}"`);
-      window.CWASA.playSiGMLText(sentence.sigml);
-
-      // Animate through words
-      for (let i = 0; i < glossWords.length; i++) {
+      // Each slot signs its own variant; a variant that can't be generated falls back to the sentence's SiGML
+      const slots = activeSlotsRef.current;
+      const variants = await Promise.all(
+        slots.map(slot =>
+          sigmlForSource(sentence, slotSourcesRef.current[slot] || 'current').catch(e => {
+            console.warn(`[SB ${ts()}] av${slot} variant unavailable, using current SiGML`, e);
+            return { gloss: sentence.gloss, sigml: sentence.sigml };
+          })
+        )
+      );
+      if (interruptRef.current) throw new Error('interrupted before playback');
+
+      // Started together and finished when the slowest slot is done; av0 drives the highlight
+      let signEvents = false;
+      let settled = false;
+      const finished = Promise.all(
+        slots.map((slot, i) =>
+          playDocument(
+            variants[i].sigml,
+            estimateAnimationDuration(variants[i].gloss),
+            slot === 0
+              ? (index) => {
+                  signEvents = true;
+                  setCurrentWordIndex(Math.min(index, glossWords.length - 1));
+                }
+              : undefined,
+            slot
+          )
+        )
+      );
+      finished.then(() => (settled = true), () => (settled = true));
+
+      // Step through the words on a timer until av0's frames report sign numbers themselves
+      for (let i = 0; i < glossWords.length && !interruptRef.current && !signEvents && !settled; i++) {
         setCurrentWordIndex(i);
-        await new Promise(resolve => setTimeout(resolve, wordDuration));
+        await sleep(wordDuration);
       }
+      const byAvatar = await finished;
 
-      // Wait a bit after animation completes
-      await new Promise(resolve => setTimeout(resolve, 300));
+      // Wait a bit after an animation that was only timed by estimate
+      if (!byAvatar.every(Boolean) && !interruptRef.current) await sleep(300);
 
+      // Dropped sentences were paused, stopped or requeued and don't count as played
+      if (interruptRef.current !== 'drop') {
+        onSentencePlayedRef.current?.(sentence.id);
+        setLastPlayed(sentence);
+      }
     } catch (e) {
-      console.error(`[SB ${ts()}] playSiGMLText error`, e);
+      if (!interruptRef.current) console.error(`[SB ${ts()}] playSiGMLText error`, e);
     }
 
     // Clear current playing state
+    interruptRef.current = null;
+    currentSentenceRef.current = null;
     setCurrentlyPlayingGloss('');
     setCurrentWordIndex(-1);
     isPlayingRef.current = false;
@@ -125,136 +411,365 @@ export const SiGMLDisplay: React.FC<SiGMLDisplayProps> = ({ sentences, currentSe
     setTimeout(playNextSentence, 100);
   };
 
-  // --- Load & init CWASA (once) ---
+  const playNextSentenceRef = useRef(playNextSentence);
+  playNextSentenceRef.current = playNextSentence;
+
+  // Replays go to the front of the queue, after whatever is playing now
   useEffect(() => {
-    console.info(`[SB ${ts()}] mount isVisible=${isVisible} sentenceCount=${sentences.length}`);
-    if (!isVisible) return;
+    if (!replayRequest) return;
+    console.info(`[SB ${ts()}] replay requested: "${preview(replayRequest.sentence.transcription, 60)}"`);
+    // A sentence that only now got SiGML is released too; the replay already signs it
+    queuedIdsRef.current.add(replayRequest.sentence.id);
+    if (!cwasaReadyRef.current) {
+      pendingSentencesRef.current.unshift(replayRequest.sentence);
+      return;
+    }
+    playbackQueueRef.current.unshift(replayRequest.sentence);
+    syncQueue();
+    if (!isPlayingRef.current) playNextSentenceRef.current();
+  }, [replayRequest]);
 
-    const ensureContainer = () => {
-      const ok = !!document.querySelector('.CWASAAvatar.av0');
-      console.debug(`[SB ${ts()}] container present? ${ok}`);
-      return ok;
-    };
+  // Single-sign practice: sign it now (repeating while looped), then let the queue continue
+  useEffect(() => {
+    if (!practice) return;
+    if (!cwasaReadyRef.current) {
+      onPracticeDoneRef.current?.(practice.requestedAt);
+      return;
+    }
 
-    const doInit = () => {
-      if (!window.CWASA) {
-        console.warn(`[SB ${ts()}] CWASA not found on window at init`);
-        return;
-      }
-      const cfg = {
-        avsbsl: ["luna", "siggi", "anna", "marc", "francoise"],
-        avSettings: { avList: "avsbsl", initAv: selectedAvatar }
-      };
-      console.info(`[SB ${ts()}] calling CWASA.init`);
+    let cancelled = false;
+    const duration = estimateAnimationDuration(practice.gloss) + 400;
+    practicingRef.current = true;
+    // Taking over av0 would end the sentence there as if signed; requeue it to start over afterwards
+    restartCurrentSentenceRef.current();
+
+    const play = async () => {
+      console.info(`[SB ${ts()}] practicing sign ${practice.gloss}${loopPracticeRef.current ? ' (loop)' : ''}`);
+      let byAvatar = false;
       try {
-        window.CWASA.init(cfg);
-        initOnceRef.current = true;
-        setCwasaLoaded(true);
-        console.info(`[SB ${ts()}] CWASA initialized ✔`);
-
-        // Play any pending sentences after initialization
-        if (pendingSentencesRef.current.length > 0) {
-          const pendingSentences = pendingSentencesRef.current;
-          pendingSentencesRef.current = [];
-          console.info(`[SB ${ts()}] consuming ${pendingSentences.length} pending sentences after init`);
-
-          // Add to playback queue
-          playbackQueueRef.current.push(...pendingSentences);
-          playNextSentence();
-        }
+        byAvatar = await playDocument(practice.sigml, duration);
       } catch (e) {
-        console.error(`[SB ${ts()}] CWASA.init error`, e);
+        console.error(`[SB ${ts()}] playSiGMLText error`, e);
+        await sleep(duration);
       }
+      if (cancelled) return;
+      // A short pause between repeats so each one reads as a separate sign (the estimate already has one)
+      if (loopPracticeRef.current) setTimeout(() => !cancelled && play(), byAvatar ? 400 : 0);
+      else onPracticeDoneRef.current?.(practice.requestedAt);
     };
+    play();
 
-    const load = () => {
-      if (initOnceRef.current) {
-        console.debug(`[SB ${ts()}] skip init (already done)`);
-        return;
-      }
-      if (!document.querySelector('#cwasa-css')) {
-        const css = document.createElement('link');
-        css.id = 'cwasa-css';
-        css.rel = 'stylesheet';
-        css.href = '/jas/loc2025/cwa/cwasa.css';
-        document.head.appendChild(css);
-        console.info(`[SB ${ts()}] injected CWASA CSS`);
-      }
-
-      if (!document.querySelector('#cwasa-js')) {
-        const js = document.createElement('script');
-        js.id = 'cwasa-js';
-        js.type = 'text/javascript';
-        js.src = '/jas/loc2025/cwa/allcsa.js';
-        js.onload = () => {
-          console.info(`[SB ${ts()}] CWASA script loaded`);
-          setTimeout(() => {
-            if (!ensureContainer()) {
-              console.warn(`[SB ${ts()}] container missing — retrying in 600ms`);
-              setTimeout(() => (ensureContainer() ? doInit() : console.error(`[SB ${ts()}] container still missing`)), 600);
-              return;
-            }
-            doInit();
-          }, 250);
-        };
-        js.onerror = (e) => console.error(`[SB ${ts()}] CWASA script failed`, e);
-        document.head.appendChild(js);
-        console.info(`[SB ${ts()}] injected CWASA JS`);
-      } else {
-        console.debug(`[SB ${ts()}] CWASA JS present`);
-        if (ensureContainer() && window.CWASA && !initOnceRef.current) doInit();
-      }
+    return () => {
+      cancelled = true;
+      practicingRef.current = false;
+      // Deferred so switching straight to another practice sign doesn't start a sentence in between
+      setTimeout(() => playNextSentenceRef.current(), 0);
+    };
+  }, [practice]);
+
+  // Follow the avatar itself: a sign number change in the frame stream is the
+  // start of that sign, and `animidle` after activity is the end of the document.
+  // Relies on `animactive`/`animidle` (no arguments) and `avatarframe` with a
+  // `CWASAFrame`, whose sign number may be missing; playDocument keeps timing a
+  // document by estimate until these actually arrive.
+  const readySlots = activeSlots.filter(slot => (slot === 0 ? cwasakLoaded : extraStatus[slot] === 'ready')).join(',');
+  useEffect(() => {
+    if (!readySlots) return;
+    if (!hasHooks) {
+      console.warn(`[SB ${ts()}] CWASA hooks unavailable — timing playback by estimate`);
+      return;
+    }
+    const documents = documentsRef.current;
+    const unsubscribe = readySlots.split(',').map(Number).flatMap(slot => [
+      cwasa.on('animactive', () => documents.get(slot)?.markStarted(), slot),
+      cwasa.on('avatarframe', frame => {
+        const doc = documents.get(slot);
+        if (!doc) return;
+        doc.markStarted();
+        const index = frameSignIndex(frame);
+        if (index >= 0 && index !== doc.signIndex) {
+          doc.signIndex = index;
+          doc.onSign?.(index);
+        }
+      }, slot),
+      cwasa.on('animidle', () => {
+        // Seen firing (even after a document that ran past its estimate): later ones can rely on it
+        idleSlotsRef.current.add(slot);
+        const doc = documents.get(slot);
+        if (doc?.started) doc.done(true);
+      }, slot),
+    ]);
+    console.info(`[SB ${ts()}] CWASA hooks registered for ${readySlots.split(',').map(slot => `av${slot}`).join(' ')}`);
+    return () => {
+      unsubscribe.forEach(off => off());
     };
+  }, [readySlots, hasHooks]);
+
+  useEffect(() => {
+    const stored = loadAvatarPreference();
+    console.info(`[SB ${ts()}] restored avatar ${stored}`);
+    setSelectedAvatar(stored);
+    setAvatarRestored(true);
+  }, []);
+
+  // Play any sentences that arrived before the avatars were ready
+  useEffect(() => {
+    if (!allSlotsReady) return;
+    if (pendingSentencesRef.current.length > 0) {
+      const pendingSentences = pendingSentencesRef.current;
+      pendingSentencesRef.current = [];
+      console.info(`[SB ${ts()}] consuming ${pendingSentences.length} pending sentences after init`);
 
-    load();
-  }, [isVisible, selectedAvatar]);
+      // Add to playback queue
+      playbackQueueRef.current.push(...pendingSentences);
+      syncQueue();
+    }
+    // A switched avatar introduces itself before the queue carries on
+    if (switchingAvatarRef.current) {
+      switchingAvatarRef.current = false;
+      greetRef.current();
+      return;
+    }
+    playNextSentenceRef.current();
+  }, [allSlotsReady]);
 
   useEffect(() => {
     console.debug(`[SB ${ts()}] cwasaLoaded=${cwasakLoaded}`);
   }, [cwasakLoaded]);
 
   // --- Sequential Sentence Playback ---
+  const sessionKeyRef = useRef(sessionKey);
   useEffect(() => {
-    const ready = isVisible && cwasakLoaded && !!window.CWASA;
-    console.debug(`[SB ${ts()}] sentence playback check → ready=${ready}, newSentences=${sentences.length - playedSentences}`);
+    const ready = isVisible && allSlotsReady;
+
+    // A new session replaces the sentences: drop everything queued or signing from the old one
+    if (sessionKey !== sessionKeyRef.current) {
+      sessionKeyRef.current = sessionKey;
+      console.info(`[SB ${ts()}] new session — resetting playback`);
+      pendingSentencesRef.current = [];
+      playbackQueueRef.current = [];
+      syncQueue();
+      interruptPlaybackRef.current('drop');
+      setLastPlayed(null);
+      queuedIdsRef.current = new Set();
+    }
 
-    if (sentences.length <= playedSentences) return;
+    const newSentences = sentences.filter(sentence => !queuedIdsRef.current.has(sentence.id));
+    console.debug(`[SB ${ts()}] sentence playback check → ready=${ready}, newSentences=${newSentences.length}`);
 
-    const newSentences = sentences.slice(playedSentences);
+    if (newSentences.length === 0) return;
+    newSentences.forEach(sentence => queuedIdsRef.current.add(sentence.id));
 
     if (!ready) {
       // Queue new sentences until CWASA is ready
       pendingSentencesRef.current.push(...newSentences);
       console.info(`[SB ${ts()}] queued ${newSentences.length} sentences until CWASA ready`);
-      setPlayedSentences(sentences.length);
       return;
     }
 
     // Add new sentences to playback queue
     playbackQueueRef.current.push(...newSentences);
+    syncQueue();
     console.info(`[SB ${ts()}] added ${newSentences.length} sentences to playback queue`);
 
     // Start playing if not already playing
     if (!isPlayingRef.current) {
       playNextSentence();
     }
+  }, [sentences, sessionKey, allSlotsReady, isVisible]);
 
-    // Update played count
-    setPlayedSentences(sentences.length);
-  }, [sentences, cwasakLoaded, isVisible, playedSentences]);
+  // --- Transport controls ---
 
-  // Reset played count when recording is cleared
-  useEffect(() => {
-    if (sentences.length === 0) {
-      setPlayedSentences(0);
-      pendingSentencesRef.current = [];
-      playbackQueueRef.current = [];
-      setCurrentlyPlayingGloss('');
-      setCurrentWordIndex(-1);
-      isPlayingRef.current = false;
-      setIsPlaying(false);
+  // End the sentence being signed now; `skip` still counts it as played
+  const interruptPlayback = (mode: 'skip' | 'drop') => {
+    if (!isPlayingRef.current) return;
+    interruptRef.current = mode;
+    for (const slot of activeSlotsRef.current) {
+      try {
+        if (cwasa.isReady(slot)) cwasa.stop(slot);
+      } catch (e) {
+        console.error(`[SB ${ts()}] stopSiGML error`, e);
+      }
+    }
+    documentsRef.current.forEach(doc => doc.done());
+  };
+
+  // The sentence being signed goes back to the front of the queue and starts over
+  const restartCurrentSentence = () => {
+    if (currentSentenceRef.current) {
+      playbackQueueRef.current.unshift(currentSentenceRef.current);
+      syncQueue();
+    }
+    interruptPlayback('drop');
+  };
+
+  // Declared after the effects that call them; read through refs so those effects don't depend on them
+  const interruptPlaybackRef = useRef(interruptPlayback);
+  interruptPlaybackRef.current = interruptPlayback;
+  const restartCurrentSentenceRef = useRef(restartCurrentSentence);
+  restartCurrentSentenceRef.current = restartCurrentSentence;
+
+  const setPausedState = (value: boolean) => {
+    pausedRef.current = value;
+    setPaused(value);
+  };
+
+  // Paused sentences start over on resume
+  const handlePause = () => {
+    console.info(`[SB ${ts()}] pause`);
+    setPausedState(true);
+    restartCurrentSentence();
+  };
+
+  const handleResume = () => {
+    console.info(`[SB ${ts()}] resume`);
+    setPausedState(false);
+    if (!isPlayingRef.current) playNextSentence();
+  };
+
+  const handleStop = () => {
+    console.info(`[SB ${ts()}] stop — dropping ${playbackQueueRef.current.length} queued sentences`);
+    playbackQueueRef.current = [];
+    syncQueue();
+    interruptPlayback('drop');
+    setPausedState(false);
+  };
+
+  const handleSkip = () => {
+    console.info(`[SB ${ts()}] skip`);
+    interruptPlayback('skip');
+  };
+
+  // Replays start straight away, ahead of the rest of the queue
+  const replay = (replayed: PlayableSentence[]) => {
+    const current = currentSentenceRef.current;
+    playbackQueueRef.current = [...replayed, ...(current ? [current] : []), ...playbackQueueRef.current];
+    syncQueue();
+    interruptPlayback('drop');
+    setPausedState(false);
+    if (!isPlayingRef.current) playNextSentence();
+  };
+
+  const handleReplayPrevious = () => {
+    if (!lastPlayed) return;
+    console.info(`[SB ${ts()}] replay previous: "${preview(lastPlayed.transcription, 60)}"`);
+    replay([lastPlayed]);
+  };
+
+  // Everything from the start; the current sentence and queue are replaced
+  const handleReplayAll = () => {
+    console.info(`[SB ${ts()}] replay all ${sentences.length} sentences`);
+    playbackQueueRef.current = sentences.filter(sentence => sentence.sigml?.trim());
+    syncQueue();
+    interruptPlayback('drop');
+    setPausedState(false);
+    if (!isPlayingRef.current) playNextSentence();
+  };
+
+  // --- Avatar ---
+
+  // Signs the greeting on the current avatar, holding the queue until it is done
+  const greet = async () => {
+    if (greetingRef.current) return;
+    greetingRef.current = true;
+    setGreeting(true);
+    try {
+      const sigml = await greetingSigml();
+      if (cwasaReadyRef.current && !isPlayingRef.current && !practicingRef.current) {
+        console.info(`[SB ${ts()}] greeting with ${selectedAvatar}`);
+        await playDocument(sigml, estimateAnimationDuration(GREETING_GLOSS));
+      }
+    } catch (e) {
+      console.warn(`[SB ${ts()}] greeting unavailable`, e);
+    }
+    greetingRef.current = false;
+    setGreeting(false);
+    playNextSentenceRef.current();
+  };
+
+  const greetRef = useRef(greet);
+  greetRef.current = greet;
+
+  // CWASA re-initializes with the new avatar; the queue is kept and the
+  // interrupted sentence starts over once the avatar has greeted
+  const handleAvatarChange = (value: string) => {
+    if (!isCWASAAvatar(value) || value === selectedAvatar) return;
+    console.info(`[SB ${ts()}] switching avatar ${selectedAvatar} → ${value}`);
+    saveAvatarPreference(value);
+    switchingAvatarRef.current = true;
+    restartCurrentSentence();
+    setSelectedAvatar(value);
+  };
+
+  // --- Comparison view ---
+
+  const handleSlotStatus = useCallback((slot: number, status: CWASAStatus) => {
+    setExtraStatus(current => (current[slot] === status ? current : { ...current, [slot]: status }));
+  }, []);
+
+  // Adding a slot or changing its avatar re-initializes every slot, so the
+  // current sentence starts over on all of them once they are back
+  const addComparisonSlot = () => {
+    if (activeSlots.length >= MAX_SLOTS) return;
+    const used = [selectedAvatar, ...extraAvatars];
+    const avatar = CWASA_AVATARS.find(name => !used.includes(name)) || DEFAULT_AVATAR;
+    console.info(`[SB ${ts()}] comparison: adding av${activeSlots.length} (${avatar})`);
+    restartCurrentSentence();
+    setExtraAvatars([...extraAvatars, avatar]);
+    setSlotSources(sources => [...sources.slice(0, activeSlots.length), 'current']);
+  };
+
+  // Only the last slot can go: CWASA numbers its containers in order
+  const removeLastComparisonSlot = () => {
+    const slot = extraAvatars.length;
+    if (slot === 0) return;
+    console.info(`[SB ${ts()}] comparison: removing av${slot}`);
+    restartCurrentSentence();
+    setExtraAvatars(extraAvatars.slice(0, -1));
+    setSlotSources(sources => sources.slice(0, slot));
+    setExtraStatus(({ [slot]: _removed, ...rest }) => rest);
+  };
+
+  const handleCompareToggle = (on: boolean) => {
+    if (on) {
+      addComparisonSlot();
+      return;
     }
-  }, [sentences.length]);
+    console.info(`[SB ${ts()}] comparison off`);
+    restartCurrentSentence();
+    setExtraAvatars([]);
+    setSlotSources(sources => sources.slice(0, 1));
+    setExtraStatus({});
+  };
+
+  const handleExtraAvatarChange = (slot: number, value: string) => {
+    if (!isCWASAAvatar(value) || value === extraAvatars[slot - 1]) return;
+    console.info(`[SB ${ts()}] av${slot} avatar → ${value}`);
+    restartCurrentSentence();
+    setExtraAvatars(extraAvatars.map((avatar, i) => (i === slot - 1 ? value : avatar)));
+  };
+
+  // Takes effect from the next sentence
+  const handleSourceChange = (slot: number, source: SigmlSource) => {
+    setSlotSources(sources => {
+      const next = [...sources];
+      next[slot] = source;
+      return next;
+    });
+  };
+
+  const moveQueued = (index: number, offset: number) => {
+    const queue = playbackQueueRef.current;
+    const target = index + offset;
+    if (target < 0 || target >= queue.length) return;
+    [queue[index], queue[target]] = [queue[target], queue[index]];
+    syncQueue();
+  };
+
+  const removeQueued = (index: number) => {
+    playbackQueueRef.current.splice(index, 1);
+    syncQueue();
+  };
 
   const hasContent = sentences.length > 0 || (currentSegment.sigml && currentSegment.sigml.trim().length > 0);
   const latestSigml = sentences.length > 0 ? sentences[sentences.length - 1].sigml : (currentSegment.sigml || '');
@@ -264,6 +779,25 @@ export const SiGMLDisplay: React.FC<SiGMLDisplayProps> = ({ sentences, currentSe
         <div className="space-y-3">
           <div className="flex items-center justify-between">
             <h3 className="text-base font-semibold text-foreground">Sign Language Animation</h3>
+            <div className="flex items-center gap-1 ml-auto mr-2">
+              <Toggle
+                  size="sm"
+                  variant="outline"
+                  pressed={comparing}
+                  onPressedChange={handleCompareToggle}
+                  disabled={!cwasakLoaded}
+                  className="h-7 px-2 text-xs"
+                  aria-label="Compare avatars side by side"
+              >
+                <Columns2 className="h-3 w-3 mr-1" />
+                Compare
+              </Toggle>
+              {comparing && activeSlots.length < MAX_SLOTS && (
+                  <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={addComparisonSlot} title="Add another avatar">
+                    <Plus className="h-3 w-3" />
+                  </Button>
+              )}
+            </div>
             <Badge
                 variant={hasContent ? 'default' : 'outline'}
                 className={hasContent ? 'bg-green-100 text-green-700 border-green-200 text-xs' : 'bg-gray-50 text-gray-500 border-gray-200 text-xs'}
@@ -273,37 +807,110 @@ export const SiGMLDisplay: React.FC<SiGMLDisplayProps> = ({ sentences, currentSe
           </div>
 
           <div className="bg-muted/30 rounded-lg p-4 min-h-[420px] flex flex-col items-center justify-center">
-            <div
-                style={{
-                  width: '300px',
-                  height: '250px',
-                  margin: '0 auto 12px auto',
-                  border: '1px solid #e5e7eb',
-                  borderRadius: '8px',
-                  backgroundColor: 'white',
-                  position: 'relative'
-                }}
-            >
-              <div className="CWASAAvatar av0" style={{ width: '100%', height: '100%', textAlign: 'center' }} />
-              {!cwasakLoaded && (
-                  <div
-                      style={{
-                        position: 'absolute',
-                        top: '50%',
-                        left: '50%',
-                        transform: 'translate(-50%, -50%)',
-                        textAlign: 'center',
-                        pointerEvents: 'none'
-                      }}
-                  >
-                    <User size={48} className="text-accent mx-auto" />
-                    <p className="text-muted-foreground">Loading 3D Avatar…</p>
-                  </div>
-              )}
+            <div className={comparing ? `grid w-full gap-3 ${activeSlots.length === 3 ? 'sm:grid-cols-3' : 'sm:grid-cols-2'}` : ''}>
+              <AvatarStage
+                  slot={0}
+                  avatar={selectedAvatar}
+                  onAvatarChange={handleAvatarChange}
+                  avatarDisabled={!avatarRestored}
+                  status={cwasaStatus}
+                  error={cwasaError}
+                  source={comparing ? slotSources[0] || 'current' : undefined}
+                  onSourceChange={source => handleSourceChange(0, source)}
+                  compact={comparing}
+                  actions={
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8 text-xs"
+                        onClick={() => greet()}
+                        disabled={!cwasakLoaded || greeting || isPlaying || !!practice}
+                        title="Preview this avatar with a greeting"
+                    >
+                      <Hand className="h-3 w-3 mr-1" />
+                      {comparing ? 'Hello' : 'Say hello'}
+                    </Button>
+                  }
+              />
+              {extraAvatars.map((avatar, i) => (
+                  <ComparisonSlot
+                      key={i + 1}
+                      slot={i + 1}
+                      avatar={avatar}
+                      enabled={isVisible && avatarRestored}
+                      onStatusChange={handleSlotStatus}
+                      onAvatarChange={value => handleExtraAvatarChange(i + 1, value)}
+                      source={slotSources[i + 1] || 'current'}
+                      onSourceChange={source => handleSourceChange(i + 1, source)}
+                      actions={
+                        i === extraAvatars.length - 1 && (
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={removeLastComparisonSlot}
+                                title="Remove this avatar"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                        )
+                      }
+                  />
+              ))}
             </div>
-            <div className="CWASAAvMenu av0 mt-2"></div>
-            <div className="CWASASpeed av0 mt-1"></div>
-            <input type="text" className="txtSiGMLURL av0" style={{ display: 'none' }} defaultValue="" />
+          </div>
+
+          <div className="flex items-center justify-center gap-1">
+            <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                onClick={handleReplayPrevious}
+                disabled={!cwasakLoaded || !lastPlayed}
+                title="Replay previous sentence"
+            >
+              <SkipBack className="h-4 w-4" />
+            </Button>
+            {paused ? (
+                <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleResume} disabled={!cwasakLoaded} title="Resume">
+                  <Play className="h-4 w-4" />
+                </Button>
+            ) : (
+                <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={handlePause}
+                    disabled={!cwasakLoaded || (!isPlaying && queuedSentences.length === 0)}
+                    title="Pause"
+                >
+                  <Pause className="h-4 w-4" />
+                </Button>
+            )}
+            <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                onClick={handleStop}
+                disabled={!cwasakLoaded || (!isPlaying && queuedSentences.length === 0 && !paused)}
+                title="Stop and clear the queue"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8" onClick={handleSkip} disabled={!isPlaying} title="Skip to next sentence">
+              <SkipForward className="h-4 w-4" />
+            </Button>
+            <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                onClick={handleReplayAll}
+                disabled={!cwasakLoaded || sentences.length === 0}
+                title="Replay all sentences"
+            >
+              <ListRestart className="h-4 w-4" />
+            </Button>
+            {paused && <Badge variant="outline" className="ml-1 text-xs">Paused</Badge>}
           </div>
 
           {currentlyPlayingGloss && (
@@ -328,6 +935,38 @@ export const SiGMLDisplay: React.FC<SiGMLDisplayProps> = ({ sentences, currentSe
               </div>
           )}
 
+          {queuedSentences.length > 0 && (
+              <div className="rounded-lg p-3 border border-border">
+                <p className="text-xs text-muted-foreground font-medium mb-2">Up next ({queuedSentences.length}):</p>
+                <ol className="space-y-1 max-h-40 overflow-y-auto">
+                  {queuedSentences.map((sentence, index) => (
+                      <li key={`${sentence.id}-${index}`} className="flex items-center gap-1 text-xs">
+                        <span className="flex-1 truncate" title={sentence.transcription}>
+                          <span className="font-semibold">{sentence.gloss}</span>
+                          <span className="text-muted-foreground"> · {preview(sentence.transcription, 40)}</span>
+                        </span>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => moveQueued(index, -1)} disabled={index === 0} title="Move up">
+                          <ChevronUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => moveQueued(index, 1)}
+                            disabled={index === queuedSentences.length - 1}
+                            title="Move down"
+                        >
+                          <ChevronDown className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => removeQueued(index)} title="Remove from queue">
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </li>
+                  ))}
+                </ol>
+              </div>
+          )}
+
           {hasContent && (
               <div className="bg-accent/10 rounded-lg p-3 border border-accent/20">
                 <p className="text-xs text-muted-foreground mb-2">Latest SiGML Preview:</p>
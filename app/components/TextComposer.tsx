@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Button } from "@/app/components/ui/button";
+import { Textarea } from "@/app/components/ui/textarea";
+import { Loader2, Send } from "lucide-react";
+import type { SegmentEvent } from "@/app/lib/pipeline";
+import { processSegmentText, splitSentences } from "@/app/lib/translate";
+
+interface TextComposerProps {
+    /** Same events as VADVoiceRecorder; typed sentences skip the transcription step. */
+    onResult?: (event: SegmentEvent) => void;
+}
+
+/**
+ * Type or paste English and have the avatar sign it. Each sentence becomes
+ * its own segment, queued behind anything still being spoken.
+ */
+export function TextComposer({ onResult }: TextComposerProps) {
+    const [text, setText] = useState("");
+    const [inFlight, setInFlight] = useState(0);
+    const [errorMessage, setErrorMessage] = useState("");
+    const sessionRef = useRef(Date.now().toString(36));
+    const seqRef = useRef(0);
+
+    const sentences = splitSentences(text);
+
+    const submit = () => {
+        if (sentences.length === 0) return;
+        setErrorMessage("");
+        setText("");
+
+        const submittedAt = Date.now();
+        sentences.forEach((sentence) => {
+            const id = `text-${sessionRef.current}-${(seqRef.current++).toString(36)}`;
+            onResult?.({ type: "captured", id, startedAt: submittedAt, endedAt: submittedAt });
+
+            setInFlight((n) => n + 1);
+            processSegmentText(id, sentence, (event) => {
+                if (event.type === "failed") setErrorMessage(event.error);
+                onResult?.(event);
+            }).finally(() => setInFlight((n) => n - 1));
+        });
+    };
+
+    return (
+        <Card className="w-full">
+            <CardHeader className="pb-3">
+                <CardTitle className="text-base">Type to Sign</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <Textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    onKeyDown={(e) => {
+                        // Ctrl/⌘+Enter sends; plain Enter keeps editing
+                        if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                            e.preventDefault();
+                            submit();
+                        }
+                    }}
+                    placeholder="Type or paste English text. Each sentence is signed in turn."
+                    className="min-h-[100px] text-sm"
+                />
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                        {sentences.length > 1 ? `${sentences.length} sentences` : "Ctrl+Enter to send"}
+                    </span>
+                    <Button onClick={submit} size="sm" disabled={sentences.length === 0}>
+                        <Send className="mr-1 h-3 w-3" />
+                        Sign
+                    </Button>
+                </div>
+
+                {inFlight > 0 && (
+                    <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        Translating{inFlight > 1 ? ` ${inFlight} sentences` : ""}...
+                    </div>
+                )}
+
+                {errorMessage && (
+                    <div className="p-2 text-xs text-red-600 bg-red-50 border border-red-200 rounded">{errorMessage}</div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
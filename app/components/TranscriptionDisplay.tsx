@@ -1,25 +1,145 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/card";
 import { Badge } from "@/app/components/ui/badge";
 import { Button } from "@/app/components/ui/button";
-import { MessageSquare, Copy, CheckCircle, Volume2 } from "lucide-react";
+import { Textarea } from "@/app/components/ui/textarea";
+import { Checkbox } from "@/app/components/ui/checkbox";
+import { MessageSquare, Copy, CheckCircle, Volume2, Pencil, Loader2, History } from "lucide-react";
+import { isSettled, type PipelineSegment } from "@/app/lib/pipeline";
 
 interface TranscriptionDisplayProps {
-  transcription: string;
+  /** Segments in capture order; each is shown (and editable) on its own. */
+  segments: PipelineSegment[];
   isVisible: boolean;
   language?: string;
+  /** Save a corrected transcription; the page re-translates just that segment. */
+  onEditSegment?: (id: string, transcription: string, options: { replay: boolean }) => void;
+}
+
+interface TranscriptSegmentProps {
+  segment: PipelineSegment;
+  onEdit?: TranscriptionDisplayProps["onEditSegment"];
+}
+
+function TranscriptSegment({ segment, onEdit }: TranscriptSegmentProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(segment.transcription);
+  const [replay, setReplay] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Only finished segments can be corrected; in-flight ones would race the pipeline
+  const editable = !!onEdit && isSettled(segment) && segment.status !== "failed";
+  // Gloss corrections live in the same list; they show up in GlossDisplay instead
+  const edits = (segment.edits || []).filter((edit) => edit.field === "transcription");
+
+  const save = () => {
+    const text = draft.trim();
+    setEditing(false);
+    if (text && text !== segment.transcription) onEdit?.(segment.id, text, { replay });
+  };
+
+  if (editing) {
+    return (
+      <div className="space-y-2 rounded border border-blue-200 bg-white p-2">
+        <Textarea
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              save();
+            } else if (e.key === "Escape") {
+              setEditing(false);
+            }
+          }}
+          className="min-h-[60px] text-sm"
+          aria-label="Corrected transcription"
+        />
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-1.5 text-xs text-gray-600">
+            <Checkbox checked={replay} onCheckedChange={(checked) => setReplay(checked === true)} />
+            Sign it again
+          </label>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setEditing(false)} className="h-7 px-2 text-xs">
+              Cancel
+            </Button>
+            <Button size="sm" onClick={save} disabled={!draft.trim()} className="h-7 px-2 text-xs">
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group">
+      <div className="flex items-start gap-1">
+        <p className={`flex-1 text-sm leading-relaxed ${editable ? "text-gray-800" : "text-gray-500 italic"}`}>
+          {segment.transcription}
+        </p>
+        {segment.revising && <Loader2 className="mt-1 h-3 w-3 flex-shrink-0 animate-spin text-blue-600" />}
+        {edits.length > 0 && (
+          <button
+            onClick={() => setShowHistory((v) => !v)}
+            className="mt-0.5 flex-shrink-0"
+            aria-label="Show edit history"
+          >
+            <Badge variant="outline" className="px-1 py-0 text-[10px] text-blue-700 border-blue-200">
+              <History className="h-2.5 w-2.5 mr-0.5" />
+              edited
+            </Badge>
+          </button>
+        )}
+        {editable && (
+          <button
+            onClick={() => {
+              setDraft(segment.transcription);
+              setEditing(true);
+            }}
+            className="mt-1 flex-shrink-0 text-blue-600 opacity-0 transition-opacity group-hover:opacity-100 focus:opacity-100"
+            aria-label="Edit transcription"
+          >
+            <Pencil className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      {segment.revisionError && (
+        <p className="text-xs text-red-600">Signs not updated: {segment.revisionError}</p>
+      )}
+      {showHistory && edits.length > 0 && (
+        <ol className="mt-1 space-y-0.5 border-l-2 border-blue-100 pl-2 text-xs text-gray-500">
+          <li>
+            <span className="font-medium">Recognized:</span> {edits[0].previous}
+          </li>
+          {edits.map((edit, i) => (
+            <li key={i}>
+              <span className="font-medium">{format(edit.editedAt, "HH:mm:ss")}:</span> {edit.value}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
 }
 
 export function TranscriptionDisplay({
-  transcription,
+  segments,
   isVisible,
-  language = "English"
+  language = "English",
+  onEditSegment
 }: TranscriptionDisplayProps) {
   const [copied, setCopied] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
 
+  const transcribed = segments.filter((s) => s.transcription);
+  const transcription = transcribed.map((s) => s.transcription).join(" ");
+
   // Trigger animation when transcription changes
   useEffect(() => {
     if (transcription && isVisible) {
@@ -88,9 +208,11 @@ export function TranscriptionDisplay({
         {/* Transcription Text */}
         <div className="bg-white/70 backdrop-blur-sm p-3 rounded border border-blue-100">
           {hasContent ? (
-            <p className="text-gray-800 text-sm leading-relaxed">
-              "{transcription}"
-            </p>
+            <div className="space-y-1.5">
+              {transcribed.map((segment) => (
+                <TranscriptSegment key={segment.id} segment={segment} onEdit={onEditSegment} />
+              ))}
+            </div>
           ) : (
             <p className="text-gray-400 text-sm italic text-center">
               Start speaking to see transcription here...
@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { useForm, type FieldPath } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/app/components/ui/button";
+import { Slider } from "@/app/components/ui/slider";
+import { Switch } from "@/app/components/ui/switch";
+import { Form, FormControl, FormField, FormItem, FormLabel } from "@/app/components/ui/form";
+import {
+    DEFAULT_VAD_CONFIG,
+    VAD_PRESETS,
+    vadConfigSchema,
+    type VADConfig,
+    type VADPresetId,
+} from "@/app/lib/vad/config";
+import type { VADMeter } from "@/app/lib/vad";
+
+interface VADSettingsPanelProps {
+    config: VADConfig;
+    preset: VADPresetId | "custom";
+    meter: VADMeter | null;
+    onChange: (config: VADConfig) => void;
+    onPresetChange: (preset: VADPresetId) => void;
+}
+
+type NumericField = Exclude<FieldPath<VADConfig>, "engine">;
+
+const SLIDERS: { name: NumericField; label: string; min: number; max: number; step: number; unit: string }[] = [
+    { name: "levelSensitivity", label: "Sensitivity (× noise floor)", min: 1, max: 6, step: 0.1, unit: "×" },
+    { name: "minDbfsGate", label: "Silence gate", min: -80, max: -20, step: 1, unit: "dBFS" },
+    { name: "noiseAlpha", label: "Noise tracking", min: 0.8, max: 0.995, step: 0.005, unit: "" },
+    { name: "startTriggerFrames", label: "Start after", min: 1, max: 10, step: 1, unit: "frames" },
+    { name: "hangoverMs", label: "End after silence", min: 150, max: 2000, step: 50, unit: "ms" },
+    { name: "frameSizeMs", label: "Frame size", min: 5, max: 30, step: 5, unit: "ms" },
+    { name: "preRollMs", label: "Pre-roll", min: 0, max: 800, step: 50, unit: "ms" },
+    { name: "postRollMs", label: "Post-roll", min: 0, max: 800, step: 50, unit: "ms" },
+    { name: "minVoiceMs", label: "Ignore speech shorter than", min: 0, max: 1000, step: 50, unit: "ms" },
+    { name: "splitSearchMs", label: "Split search window", min: 500, max: 5000, step: 100, unit: "ms" },
+];
+
+// Meter scale in dBFS
+const METER_FLOOR_DB = -90;
+const toPercent = (db: number | undefined) =>
+    db === undefined ? 0 : Math.max(0, Math.min(100, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+/**
+ * Live VAD tuning: presets, sliders for the detector parameters and a meter
+ * showing the current level against the noise floor and threshold.
+ */
+export function VADSettingsPanel({ config, preset, meter, onChange, onPresetChange }: VADSettingsPanelProps) {
+    const form = useForm<VADConfig>({ resolver: zodResolver(vadConfigSchema), defaultValues: config, mode: "onChange" });
+
+    // Presets (and the stored settings loading after mount) replace the whole form
+    useEffect(() => {
+        if (JSON.stringify(form.getValues()) !== JSON.stringify(config)) form.reset(config);
+    }, [config, form]);
+
+    // Push user edits up; resets have no field name and are ignored so a preset stays selected
+    useEffect(() => {
+        const sub = form.watch((values, { name }) => {
+            if (!name) return;
+            const parsed = vadConfigSchema.safeParse(values);
+            if (parsed.success) onChange(parsed.data);
+        });
+        return () => sub.unsubscribe();
+    }, [form, onChange]);
+
+    return (
+        <div className="space-y-3 rounded border p-3 text-xs">
+            <div className="flex flex-wrap gap-1">
+                {(Object.keys(VAD_PRESETS) as VADPresetId[]).map((id) => (
+                    <Button
+                        key={id}
+                        type="button"
+                        size="sm"
+                        variant={preset === id ? "default" : "outline"}
+                        className="h-7 px-2 text-xs"
+                        onClick={() => onPresetChange(id)}
+                    >
+                        {VAD_PRESETS[id].label}
+                    </Button>
+                ))}
+                {preset === "custom" && <span className="self-center text-muted-foreground">Custom</span>}
+            </div>
+
+            <div className="space-y-1">
+                <div className="relative h-2 w-full overflow-hidden rounded-full bg-secondary">
+                    <div
+                        className={`absolute h-full ${meter?.voiced ? "bg-emerald-500" : "bg-primary/60"}`}
+                        style={{ width: `${toPercent(meter?.rmsDb)}%` }}
+                    />
+                    {meter?.thresholdDb !== undefined && (
+                        <div className="absolute h-full w-0.5 bg-red-500" style={{ left: `${toPercent(meter.thresholdDb)}%` }} />
+                    )}
+                </div>
+                <div className="grid grid-cols-3 gap-2 font-mono">
+                    <div>
+                        <span className="text-muted-foreground">Level </span>
+                        {meter ? meter.rmsDb.toFixed(1) : "–"} dB
+                    </div>
+                    <div>
+                        <span className="text-muted-foreground">Noise </span>
+                        {meter?.noiseFloorDb !== undefined ? meter.noiseFloorDb.toFixed(1) : "–"} dB
+                    </div>
+                    <div>
+                        {meter?.probability !== undefined ? (
+                            <>
+                                <span className="text-muted-foreground">P(speech) </span>
+                                {meter.probability.toFixed(2)}
+                            </>
+                        ) : (
+                            <>
+                                <span className="text-muted-foreground">Thr </span>
+                                {meter?.thresholdDb !== undefined ? meter.thresholdDb.toFixed(1) : "–"} dB
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <Form {...form}>
+                <form className="space-y-3" onSubmit={(e) => e.preventDefault()}>
+                    <FormField
+                        control={form.control}
+                        name="engine"
+                        render={({ field }) => (
+                            <FormItem className="flex items-center justify-between space-y-0">
+                                <FormLabel className="text-xs">Neural detector (Silero)</FormLabel>
+                                <FormControl>
+                                    <Switch
+                                        checked={field.value === "silero"}
+                                        onCheckedChange={(on) => field.onChange(on ? "silero" : "energy")}
+                                    />
+                                </FormControl>
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="maxSegmentMs"
+                        render={({ field }) => (
+                            <FormItem className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <FormLabel className="text-xs">Split long segments</FormLabel>
+                                    <FormControl>
+                                        <Switch
+                                            checked={field.value > 0}
+                                            onCheckedChange={(on) => field.onChange(on ? DEFAULT_VAD_CONFIG.maxSegmentMs : 0)}
+                                        />
+                                    </FormControl>
+                                </div>
+                                {field.value > 0 && (
+                                    <>
+                                        <div className="flex justify-between text-muted-foreground">
+                                            <span>Max length</span>
+                                            <span className="font-mono">{(field.value / 1000).toFixed(0)} s</span>
+                                        </div>
+                                        <Slider
+                                            min={3000}
+                                            max={60000}
+                                            step={1000}
+                                            value={[field.value]}
+                                            onValueChange={([v]) => field.onChange(v)}
+                                        />
+                                    </>
+                                )}
+                            </FormItem>
+                        )}
+                    />
+                    {SLIDERS.map(({ name, label, min, max, step, unit }) => (
+                        <FormField
+                            key={name}
+                            control={form.control}
+                            name={name}
+                            render={({ field }) => (
+                                <FormItem className="space-y-2">
+                                    <div className="flex justify-between">
+                                        <FormLabel className="text-xs">{label}</FormLabel>
+                                        <span className="font-mono text-muted-foreground">
+                                            {field.value} {unit}
+                                        </span>
+                                    </div>
+                                    <FormControl>
+                                        <Slider
+                                            min={min}
+                                            max={max}
+                                            step={step}
+                                            value={[field.value]}
+                                            onValueChange={([v]) => field.onChange(v)}
+                                        />
+                                    </FormControl>
+                                </FormItem>
+                            )}
+                        />
+                    ))}
+                </form>
+            </Form>
+        </div>
+    );
+}
@@ -1,21 +1,32 @@
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/card";
 import { Button } from "@/app/components/ui/button";
 import { Badge } from "@/app/components/ui/badge";
 import { Progress } from "@/app/components/ui/progress";
-import { Mic, MicOff, Loader2, Volume2, VolumeX } from "lucide-react";
-
-interface VADResult {
-    transcription?: string;
-    gloss?: string;
-    sigml?: string;
-    isNewSegment?: boolean;
-}
+import { Collapsible, CollapsibleContent } from "@/app/components/ui/collapsible";
+import { Mic, MicOff, Loader2, Volume2, VolumeX, SlidersHorizontal } from "lucide-react";
+import { VADSettingsPanel } from "@/app/components/VADSettingsPanel";
+import { useVADSettings } from "@/app/hooks/use-vad-settings";
+import {
+    createTranscriptionProvider,
+    defaultTranscriptionProviderId,
+    type TranscriptionProvider,
+    type TranscriptionProviderId,
+} from "@/app/lib/transcription";
+import type { SegmentEvent } from "@/app/lib/pipeline";
+import { createVADEngine, dbfs, type VADEngine, type VADEngineKind, type VADMeter } from "@/app/lib/vad";
+import { createVADCaptureNode, type VADCaptureCommand, type VADCaptureEvent, type VADCaptureSettings } from "@/app/lib/vad/worklet";
+import { energyOptionsFrom, segmenterOptionsFrom, type VADConfig } from "@/app/lib/vad/config";
+import { processSegmentAudio } from "@/app/lib/translate";
 
 interface VADVoiceRecorderProps {
-    onResult?: (result: VADResult) => void;
+    /**
+     * Receives one event per pipeline step, keyed by the segment id issued when
+     * the segment is finalized. Events of different segments may interleave.
+     */
+    onResult?: (event: SegmentEvent) => void;
     onClear?: () => void;
     /**
      * Preferred BCP‑47 locale for transcription (e.g. "en-US", "en-AU").
@@ -23,257 +34,159 @@ interface VADVoiceRecorderProps {
      */
     transcriptionLocale?: string;
     /**
-     * Fast Transcription API endpoint. If not provided, falls back to env var
+     * Speech-to-text backend: a provider id ("proxy", "azure", "openai", "backend") or a
+     * ready-made provider instance. Defaults to NEXT_PUBLIC_TRANSCRIPTION_PROVIDER,
+     * then "proxy", which posts to /api/transcribe so no key reaches the browser.
+     */
+    transcriptionProvider?: TranscriptionProviderId | TranscriptionProvider;
+    /**
+     * Fast Transcription API endpoint (azure provider only). If not provided, falls back to env var
      * NEXT_PUBLIC_FALLBACK_TRANSCRIBER_URL or Microsoft's public preview URL.
      */
     fastApiUrl?: string;
     /**
      * API key header value for Fast Transcription API ("Ocp-Apim-Subscription-Key").
-     * If not provided, uses env var NEXT_PUBLIC_FALLBACK_API_KEY.
+     * Required when calling Azure directly; prefer the proxy provider in production.
      */
     fastApiKey?: string;
+    /**
+     * OpenAI-compatible `/v1/audio/transcriptions` URL (openai provider only), e.g. a
+     * local whisper.cpp server. Falls back to NEXT_PUBLIC_OPENAI_TRANSCRIBER_URL.
+     */
+    whisperUrl?: string;
+    /** Model name sent to the OpenAI-compatible endpoint. Defaults to "whisper-1". */
+    whisperModel?: string;
+    /**
+     * Detector, segmentation and threshold parameters. Used until the user picks a
+     * preset or tunes the detector, which is then remembered per browser.
+     */
+    vadConfig?: Partial<VADConfig>;
+    /** Show the live tuning panel toggle. Defaults to true. */
+    showTuning?: boolean;
 }
 
 /**
- * A zero-dependency client-side VAD using short-term energy with adaptive noise floor + hangover logic.
- * Goal: detect end of each speech segment and POST it to Fast Transcription API as WAV (16 kHz mono).
- *
- * No ONNX/WebAssembly. Works in modern browsers without cross-origin isolation.
+ * A client-side VAD with start/hangover logic around a swappable frame classifier:
+ * short-term energy with adaptive noise floor (default, zero-dependency) or Silero (ONNX/WASM).
+ * Framing, energy VAD and segmentation run in the "vad-capture" AudioWorklet; Silero frames
+ * make a round trip to the main thread for inference.
+ * Goal: detect end of each speech segment and POST it as WAV (16 kHz mono) to the configured transcription provider.
  */
 export function VADVoiceRecorder({
                                      onResult,
                                      onClear,
                                      transcriptionLocale = "en-US",
-                                     fastApiUrl =
-                                         process.env.NEXT_PUBLIC_FALLBACK_TRANSCRIBER_URL ||
-                                         "https://australiaeast.api.cognitive.microsoft.com/speechtotext/transcriptions:transcribe?api-version=2024-11-15",
-                                     fastApiKey = process.env.NEXT_PUBLIC_FALLBACK_API_KEY || "7feed90e615f47f88fdf24fd66743a29",
+                                     transcriptionProvider = defaultTranscriptionProviderId(),
+                                     fastApiUrl,
+                                     fastApiKey,
+                                     whisperUrl,
+                                     whisperModel,
+                                     vadConfig,
+                                     showTuning = true,
                                  }: VADVoiceRecorderProps) {
     const [status, setStatus] = useState<"idle" | "listening" | "error">("idle");
-    const [isProcessing, setIsProcessing] = useState(false);
+    const [inFlight, setInFlight] = useState(0); // segments still being processed
     const [errorMessage, setErrorMessage] = useState("");
     const [audioLevel, setAudioLevel] = useState(0);
     const [totalRecordings, setTotalRecordings] = useState(0);
     const [lastRecordingDuration, setLastRecordingDuration] = useState(0);
     const [isSpeaking, setIsSpeaking] = useState(false); // live speaking indicator
+    const [engineLoading, setEngineLoading] = useState(false);
+    const [tuningOpen, setTuningOpen] = useState(false);
+    const [meter, setMeter] = useState<VADMeter | null>(null);
+
+    // Live-tunable parameters, persisted per browser; callbacks read the latest through configRef
+    const vadSettings = useVADSettings(vadConfig);
+    const config = vadSettings.config;
+    const configRef = useRef(config);
+    configRef.current = config;
+    const tuningOpenRef = useRef(false);
+    tuningOpenRef.current = tuningOpen;
+    const audioLevelRef = useRef(0);
+    const speakingRef = useRef(false);
 
     // Audio graph refs
     const mediaStreamRef = useRef<MediaStream | null>(null);
     const audioCtxRef = useRef<AudioContext | null>(null);
-    const analyserRef = useRef<AnalyserNode | null>(null);
-    const workletNodeRef = useRef<AudioWorkletNode | ScriptProcessorNode | null>(null);
+    const workletNodeRef = useRef<AudioWorkletNode | null>(null);
     const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-    const rafRef = useRef<number | null>(null);
 
-    // Buffering for current speech segment (captured at input sample rate)
-    const captureBufRef = useRef<Float32Array[]>([]);
     const inputSampleRateRef = useRef<number>(48000);
-
-    // ====== VAD parameters (tweak to taste) ======
-    const FRAME_SIZE_MS = 10; // analysis frame size
-    const HOP_MS = 10; // hop == frame size (no overlap)
-    const MIN_VOICE_MS = 200; // minimum speech to keep a segment (reduced from 250ms)
-    // More sensitive: allow only ~0.4s of silence before we close a segment (reduced from 900ms)
-    const MAX_SILENCE_HANGOVER_MS = 400;
-    // Require fewer consecutive voiced frames to start a segment (reduced from 4)
-    const START_TRIGGER_FRAMES = 2;
-    const STOP_TRIGGER_FRAMES = Math.ceil(MAX_SILENCE_HANGOVER_MS / HOP_MS);
-    const TARGET_SR = 16000;
-
-    // Adaptive threshold params - more sensitive
-    const NOISE_ALPHA = 0.95; // higher -> slower noise tracking
-    const LEVEL_SENSITIVITY = 1.5; // threshold = noiseRms * LEVEL_SENSITIVITY (reduced from 2.0)
-    const MIN_DBFS_GATE = -55; // below this (approx), treat as silence regardless of noise (more sensitive)
-
-    // Internal VAD state
-    const vadStateRef = useRef({
-        inSpeech: false,
-        consecVoiced: 0,
-        consecUnvoiced: 0,
-        noiseRms: 0.001,
-        maxRms: 0.001,
-        samplesPerFrame: 480, // initial for 10ms @ 48k; will set on start from actual rate
-        frameBuf: new Float32Array(0),
-    });
-
-    // === Utilities ===
-    const floatTo16BitPCM = (input: Float32Array) => {
-        const output = new Int16Array(input.length);
-        for (let i = 0; i < input.length; i++) {
-            let s = Math.max(-1, Math.min(1, input[i]));
-            output[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-        }
-        return output;
-    };
-
-    const encodeWav = (pcm16: Int16Array, sampleRate: number) => {
-        const buffer = new ArrayBuffer(44 + pcm16.length * 2);
-        const view = new DataView(buffer);
-
-        const writeString = (offset: number, str: string) => {
-            for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
-        };
-
-        writeString(0, "RIFF");
-        view.setUint32(4, 36 + pcm16.length * 2, true);
-        writeString(8, "WAVE");
-        writeString(12, "fmt ");
-        view.setUint32(16, 16, true); // PCM
-        view.setUint16(20, 1, true); // format
-        view.setUint16(22, 1, true); // channels
-        view.setUint32(24, sampleRate, true);
-        view.setUint32(28, sampleRate * 2, true); // byte rate
-        view.setUint16(32, 2, true); // block align
-        view.setUint16(34, 16, true); // bits per sample
-        writeString(36, "data");
-        view.setUint32(40, pcm16.length * 2, true);
-
-        let offset = 44;
-        for (let i = 0; i < pcm16.length; i++, offset += 2) view.setInt16(offset, pcm16[i], true);
-
-        return new Blob([view], { type: "audio/wav" });
-    };
-
-    // Simple streaming resampler from arbitrary input SR -> 16k using linear interpolation.
-    // Keeps fractional phase between calls.
-    const resampleStateRef = useRef({ phase: 0 });
-    const resampleTo16k = (input: Float32Array, inSr: number) => {
-        if (inSr === TARGET_SR) return input;
-        const ratio = TARGET_SR / inSr;
-        const outLen = Math.floor(input.length * ratio + 1);
-        const out = new Float32Array(outLen);
-        let phase = resampleStateRef.current.phase;
-        for (let i = 0; i < outLen; i++) {
-            const pos = phase;
-            const idx = Math.floor(pos);
-            const frac = pos - idx;
-            const s0 = input[idx] ?? input[input.length - 1] ?? 0;
-            const s1 = input[idx + 1] ?? s0;
-            out[i] = s0 + (s1 - s0) * frac;
-            phase += 1 / ratio;
-            if (phase >= input.length - 1) break;
-        }
-        // Keep leftover phase within current input window for continuity
-        resampleStateRef.current.phase = phase - (input.length - 1);
-        return out;
-    };
-
-    const dbfs = (rms: number) => 20 * Math.log10(Math.max(1e-9, rms));
-
-    // === Transcription via Fast Transcription API ===
-    const transcribeWithFastAPI = async (wavBlob: Blob): Promise<string> => {
-        // Build multipart form: { audio, definition }
-        const form = new FormData();
-        form.append("audio", wavBlob, "segment.wav");
-        const definition = { locales: [transcriptionLocale || "en-US"] } as const;
-        form.append("definition", JSON.stringify(definition));
-
-        const resp = await fetch(fastApiUrl, {
-            method: "POST",
-            headers: {
-                "Ocp-Apim-Subscription-Key": fastApiKey,
-            },
-            body: form,
-        });
-
-        if (!resp.ok) {
-            const text = await resp.text().catch(() => "");
-            throw new Error(`Fast Transcription failed: HTTP ${resp.status} ${resp.statusText} ${text}`);
-        }
-        const data = await resp.json();
-        // Microsoft FT response shape: combinedPhrases[0].text
-        const text: string | undefined = data?.combinedPhrases?.[0]?.text;
-        return text ?? "";
-    };
+    // Wall clock at stream start; segment timestamps are offsets from it
+    const streamStartedAtRef = useRef<number>(0);
+    const segmentSeqRef = useRef<number>(0);
+
+    // Neural engine classifying frames handed over by the worklet (null while the energy VAD,
+    // which runs inside the worklet, is active). Inference is async, so frames go through
+    // frameChainRef strictly in order.
+    const engineRef = useRef<VADEngine | null>(null);
+    const frameChainRef = useRef<Promise<void>>(Promise.resolve());
+
+    // === Transcription via the selected provider ===
+    const createTranscriber = (): TranscriptionProvider =>
+        typeof transcriptionProvider === "string"
+            ? createTranscriptionProvider(transcriptionProvider, {
+                  azure: { url: fastApiUrl, apiKey: fastApiKey },
+                  openai: { url: whisperUrl, model: whisperModel },
+              })
+            : transcriptionProvider;
 
     // Called when a full speech segment is detected
-    const handleSegment = async (monoSegment: Float32Array, inSr: number) => {
-        const backendUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
-
+    const handleSegment = async (segmentId: string, monoSegment: Float32Array, inSr: number) => {
+        setInFlight((n) => n + 1);
         try {
-            // Resample to 16k
-            resampleStateRef.current.phase = 0; // reset per segment
-            const segment16k = resampleTo16k(monoSegment, inSr);
-            const pcm16 = floatTo16BitPCM(segment16k);
-            const wav = encodeWav(pcm16, TARGET_SR);
-
-            setIsProcessing(true);
-
-            // === Fast Transcription ===
-            const transcription = await transcribeWithFastAPI(wav);
-
-            if (!transcription) {
-                // No text returned — do not emit gloss request
-                return;
-            }
-
-            // Step 1: Send transcription for this segment
-            onResult?.({
-                transcription,
-                gloss: "",
-                sigml: ""
-            });
-
-            // Step 2: Generate gloss for THIS segment only
-            const glossResponse = await fetch(`${backendUrl}/text-to-gloss`, {
-                method: "POST",
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ text: transcription })
-            });
-            if (!glossResponse.ok) throw new Error(`Gloss conversion failed: HTTP ${glossResponse.status}`);
-            const glossResult = await glossResponse.json();
-
-            // Step 3: Generate SiGML for this segment's gloss
-            let sigmlContent = '';
-            if (glossResult.gloss) {
-                const sigmlResponse = await fetch(`${backendUrl}/gloss-to-sigml`, {
-                    method: "POST",
-                    headers: {
-                        'Content-Type': 'application/json'
-                    },
-                    body: JSON.stringify({ gloss: glossResult.gloss })
-                });
-                if (sigmlResponse.ok) {
-                    const sigmlResult = await sigmlResponse.json();
-                    sigmlContent = sigmlResult.sigml || '';
+            await processSegmentAudio(
+                { id: segmentId, samples: monoSegment, sampleRate: inSr },
+                { transcriber: createTranscriber(), locale: transcriptionLocale || "en-US" },
+                (event) => {
+                    if (event.type === "failed") setErrorMessage(event.error);
+                    onResult?.(event);
                 }
-            }
-
-            // Send complete result for this individual segment
-            onResult?.({
-                transcription: '',  // Empty since already sent
-                gloss: glossResult.gloss || '',
-                sigml: sigmlContent,
-                isNewSegment: true  // Flag to indicate this is a new sentence segment
-            });
+            );
         } catch (e: any) {
-            setErrorMessage(e?.message || "Unknown error while processing segment");
+            // createTranscriptionProvider throws when misconfigured (e.g. azure without a key)
+            const message = e?.message || "Transcription unavailable";
+            setErrorMessage(message);
+            onResult?.({ type: "failed", id: segmentId, error: message });
         } finally {
-            setIsProcessing(false);
+            setInFlight((n) => n - 1);
         }
     };
 
-    // ====== AudioWorklet-based frame pump ======
-    const addWorkletProcessor = async (ctx: AudioContext) => {
-        const processorCode = `
-      class FramePumpProcessor extends AudioWorkletProcessor {
-        constructor() { super(); this._buf = []; }
-        process(inputs) {
-          const input = inputs[0];
-          if (!input || !input[0]) return true;
-          const ch0 = input[0];
-          this.port.postMessage(ch0);
-          return true;
+    // ====== Capture worklet ======
+    // Stable: these only read refs, so the live-tuning effect can depend on them
+    const post = useCallback(
+        (command: VADCaptureCommand, transfer: Transferable[] = []) => workletNodeRef.current?.port.postMessage(command, transfer),
+        []
+    );
+
+    const captureSettings = useCallback((): VADCaptureSettings => {
+        const config = configRef.current;
+        const engine = engineRef.current;
+        return {
+            mode: engine ? "external" : "energy",
+            externalFrameSamples: engine?.frameSamples(inputSampleRateRef.current),
+            energy: energyOptionsFrom(config),
+            segmenter: segmenterOptionsFrom(config),
+        };
+    }, []);
+
+    const handleCaptureEvent = (event: VADCaptureEvent) => {
+        switch (event.type) {
+            case "speech":
+                speakingRef.current = event.speaking;
+                setIsSpeaking(event.speaking);
+                break;
+            case "segment":
+                finalizeSegment(event.samples, inputSampleRateRef.current, event.startSample);
+                break;
+            case "frame":
+                classifyFrame(event.samples);
+                break;
+            case "meter":
+                updateMeter(event);
+                break;
         }
-      }
-      registerProcessor('frame-pump', FramePumpProcessor);
-    `;
-        const blob = new Blob([processorCode], { type: "application/javascript" });
-        const url = URL.createObjectURL(blob);
-        await (ctx as any).audioWorklet.addModule(url);
-        URL.revokeObjectURL(url);
     };
 
     const start = async () => {
@@ -286,51 +199,22 @@ export function VADVoiceRecorder({
             mediaStreamRef.current = stream;
             audioCtxRef.current = ctx;
             inputSampleRateRef.current = ctx.sampleRate;
-
-            const analyser = ctx.createAnalyser();
-            analyser.fftSize = 256;
-            analyserRef.current = analyser;
+            streamStartedAtRef.current = Date.now();
+            engineRef.current?.reset();
 
             const source = ctx.createMediaStreamSource(stream);
             sourceRef.current = source;
 
-            await addWorkletProcessor(ctx);
-            const node = new (window as any).AudioWorkletNode(ctx, "frame-pump");
+            const node = await createVADCaptureNode(ctx, captureSettings());
             workletNodeRef.current = node;
+            node.port.onmessage = (ev: MessageEvent<VADCaptureEvent>) => handleCaptureEvent(ev.data);
 
-            source.connect(analyser);
-            source.connect(node as any);
+            source.connect(node);
             const gain = ctx.createGain();
             gain.gain.value = 0.0;
-            (node as any).disconnect();
-            (node as any).connect(gain);
+            node.connect(gain);
             gain.connect(ctx.destination);
 
-            const samplesPerFrame = Math.round((FRAME_SIZE_MS / 1000) * ctx.sampleRate);
-            vadStateRef.current.samplesPerFrame = samplesPerFrame;
-            vadStateRef.current.frameBuf = new Float32Array(0);
-
-            (node as any).port.onmessage = (ev: MessageEvent<Float32Array>) => {
-                const chunk = ev.data;
-                if (!chunk) return;
-                pushAndProcessFrames(chunk);
-            };
-
-            // UI meter via analyser
-            const dataArray = new Uint8Array(analyser.frequencyBinCount);
-            const tick = () => {
-                analyser.getByteTimeDomainData(dataArray);
-                let sum = 0;
-                for (let i = 0; i < dataArray.length; i++) {
-                    const v = (dataArray[i] - 128) / 128;
-                    sum += v * v;
-                }
-                const rms = Math.sqrt(sum / dataArray.length);
-                setAudioLevel(Math.min(100, Math.round(rms * 100)));
-                rafRef.current = requestAnimationFrame(tick);
-            };
-            rafRef.current = requestAnimationFrame(tick);
-
             setStatus("listening");
         } catch (e: any) {
             console.error(e);
@@ -340,128 +224,118 @@ export function VADVoiceRecorder({
     };
 
     const stop = () => {
-        if (rafRef.current) cancelAnimationFrame(rafRef.current);
-        rafRef.current = null;
-        workletNodeRef.current && (workletNodeRef.current as any).port && ((workletNodeRef.current as any).port.onmessage = null);
-        workletNodeRef.current?.disconnect();
+        const node = workletNodeRef.current;
+        const ctx = audioCtxRef.current;
         sourceRef.current?.disconnect();
-        analyserRef.current?.disconnect();
-        audioCtxRef.current?.close().catch(() => {});
         mediaStreamRef.current?.getTracks().forEach((t) => t.stop());
 
         mediaStreamRef.current = null;
         audioCtxRef.current = null;
-        analyserRef.current = null;
         workletNodeRef.current = null;
         sourceRef.current = null;
 
-        // If we were mid-segment, flush it
-        flushCurrentSegment();
+        // If we were mid-segment, have the worklet close it once pending frames are classified,
+        // then tear the graph down
+        const teardown = () => {
+            if (node) node.port.onmessage = null;
+            node?.disconnect();
+            ctx?.close().catch(() => {});
+        };
+        if (node) {
+            const timeout = setTimeout(teardown, 1000);
+            node.port.onmessage = (ev: MessageEvent<VADCaptureEvent>) => {
+                if (ev.data.type === "flushed") {
+                    clearTimeout(timeout);
+                    teardown();
+                } else {
+                    handleCaptureEvent(ev.data);
+                }
+            };
+            frameChainRef.current = frameChainRef.current.then(() => node.port.postMessage({ type: "flush" }));
+        } else {
+            teardown();
+        }
 
+        speakingRef.current = false;
+        audioLevelRef.current = 0;
         setIsSpeaking(false);
         setAudioLevel(0);
         setStatus("idle");
     };
 
-    const pushAndProcessFrames = (chunk: Float32Array) => {
-        const vs = vadStateRef.current;
-        let buf = concatFloat32(vs.frameBuf, chunk);
-        const spf = vs.samplesPerFrame;
-        let offset = 0;
-        while (offset + spf <= buf.length) {
-            const frame = buf.subarray(offset, offset + spf);
-            processFrame(frame);
-            offset += spf;
-        }
-        vs.frameBuf = buf.subarray(offset);
-    };
-
-    const concatFloat32 = (a: Float32Array, b: Float32Array) => {
-        const out = new Float32Array(a.length + b.length);
-        out.set(a, 0);
-        out.set(b, a.length);
-        return out;
-    };
-
-    const processFrame = (frame: Float32Array) => {
-        const vs = vadStateRef.current;
-        let sum = 0;
-        for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
-        const rms = Math.sqrt(sum / frame.length) + 1e-12;
-
-        vs.maxRms = Math.max(vs.maxRms * 0.999, rms);
-
-        const levelDb = dbfs(rms);
-        const gate = levelDb > MIN_DBFS_GATE;
-
-        const thr = vs.noiseRms * LEVEL_SENSITIVITY;
-        if (!vs.inSpeech && rms <= thr) {
-            vs.noiseRms = NOISE_ALPHA * vs.noiseRms + (1 - NOISE_ALPHA) * rms;
-        }
-
-        const voiced = gate && rms > thr;
-
-        if (voiced) {
-            vs.consecVoiced += 1;
-            vs.consecUnvoiced = 0;
-        } else {
-            vs.consecUnvoiced += 1;
-            vs.consecVoiced = 0;
-        }
-
-        if (!vs.inSpeech && vs.consecVoiced >= START_TRIGGER_FRAMES) {
-            vs.inSpeech = true;
-            setIsSpeaking(true);
-            captureBufRef.current = [];
-        }
-
-        if (vs.inSpeech) {
-            captureBufRef.current.push(frame.slice());
-            if (vs.consecUnvoiced >= STOP_TRIGGER_FRAMES) {
-                vs.inSpeech = false;
-                setIsSpeaking(false);
-                finalizeSegment();
-                vs.consecUnvoiced = 0;
+    const selectEngine = useCallback(
+        async (kind: VADEngineKind) => {
+            if ((engineRef.current?.kind ?? "energy") === kind) return;
+            if (kind === "energy") {
+                // Back to the in-worklet detector once the frames already handed over are classified
+                frameChainRef.current = frameChainRef.current.then(() => {
+                    engineRef.current?.dispose();
+                    engineRef.current = null;
+                    post({ type: "configure", settings: captureSettings() });
+                });
+                return;
             }
-        }
+            setEngineLoading(true);
+            try {
+                const next = await createVADEngine(kind);
+                frameChainRef.current = frameChainRef.current.then(() => {
+                    const previous = engineRef.current;
+                    engineRef.current = next;
+                    previous?.dispose();
+                    post({ type: "configure", settings: captureSettings() });
+                });
+                await frameChainRef.current;
+            } catch (e: any) {
+                console.error(e);
+                setErrorMessage(`Could not load ${kind} VAD: ${e?.message || e}`);
+            } finally {
+                setEngineLoading(false);
+            }
+        },
+        [post, captureSettings]
+    );
+
+    // External mode: classify on the main thread and hand the frame back with the decision
+    const classifyFrame = (samples: Float32Array) => {
+        frameChainRef.current = frameChainRef.current
+            .then(async () => {
+                const engine = engineRef.current;
+                // Frames still in flight after switching back to energy keep the current state
+                const decision = engine
+                    ? await engine.classify(samples, inputSampleRateRef.current, { inSpeech: speakingRef.current })
+                    : { voiced: speakingRef.current, probability: undefined };
+                post({ type: "decision", samples, voiced: decision.voiced, probability: decision.probability }, [samples.buffer]);
+            })
+            .catch((e) => console.error("VAD frame error", e));
     };
 
-    const flushCurrentSegment = () => {
-        const vs = vadStateRef.current;
-        if (vs.inSpeech && captureBufRef.current.length > 0) {
-            vs.inSpeech = false;
-            setIsSpeaking(false);
-            finalizeSegment();
+    const updateMeter = ({ rms, voiced, noiseRms, threshold, probability }: Extract<VADCaptureEvent, { type: "meter" }>) => {
+        const level = Math.min(100, Math.round(rms * 100));
+        if (level !== audioLevelRef.current) {
+            audioLevelRef.current = level;
+            setAudioLevel(level);
         }
+        // Detailed tuning meter only while the panel is open
+        if (!tuningOpenRef.current) return;
+        setMeter({
+            rmsDb: dbfs(rms),
+            noiseFloorDb: noiseRms !== undefined ? dbfs(noiseRms) : undefined,
+            thresholdDb: threshold !== undefined ? dbfs(threshold) : undefined,
+            probability,
+            voiced,
+        });
     };
 
-    const finalizeSegment = () => {
-        const inputSr = inputSampleRateRef.current;
-        const frames = captureBufRef.current;
-        captureBufRef.current = [];
-        if (frames.length === 0) return;
+    const finalizeSegment = (samples: Float32Array, sampleRate: number, startSample: number) => {
+        const durationSec = samples.length / sampleRate;
 
-        const mono = joinFloat32(frames);
-        const durationSec = mono.length / inputSr;
-
-        if (durationSec * 1000 < MIN_VOICE_MS) {
-            return;
-        }
+        const segmentId = `seg-${streamStartedAtRef.current.toString(36)}-${(segmentSeqRef.current++).toString(36)}`;
+        const startedAt = streamStartedAtRef.current + (startSample / sampleRate) * 1000;
+        onResult?.({ type: "captured", id: segmentId, startedAt, endedAt: startedAt + durationSec * 1000 });
 
         setLastRecordingDuration(durationSec);
         setTotalRecordings((n) => n + 1);
-        handleSegment(mono, inputSr);
-    };
-
-    const joinFloat32 = (chunks: Float32Array[]) => {
-        const total = chunks.reduce((a, c) => a + c.length, 0);
-        const out = new Float32Array(total);
-        let off = 0;
-        for (const c of chunks) {
-            out.set(c, off);
-            off += c.length;
-        }
-        return out;
+        handleSegment(segmentId, samples, sampleRate);
     };
 
     const handleToggle = () => {
@@ -469,9 +343,16 @@ export function VADVoiceRecorder({
         else start();
     };
 
+    // Apply tuning live, including while listening
+    useEffect(() => {
+        if ((engineRef.current?.kind ?? "energy") !== config.engine) selectEngine(config.engine);
+        post({ type: "configure", settings: captureSettings() });
+    }, [config, selectEngine, post, captureSettings]);
+
     useEffect(() => {
         return () => {
             stop();
+            engineRef.current?.dispose();
         };
     }, []);
 
@@ -500,8 +381,39 @@ export function VADVoiceRecorder({
                     <Button onClick={() => onClear?.()} variant="outline" size="sm" className="w-24" disabled={status === "error"}>
                         Clear
                     </Button>
+                    {showTuning && (
+                        <Button
+                            onClick={() => setTuningOpen((open) => !open)}
+                            variant={tuningOpen ? "secondary" : "ghost"}
+                            size="sm"
+                            aria-label="Tune voice detection"
+                        >
+                            <SlidersHorizontal className="h-3 w-3" />
+                        </Button>
+                    )}
                 </div>
 
+                {showTuning && (
+                    <Collapsible open={tuningOpen}>
+                        <CollapsibleContent>
+                            <VADSettingsPanel
+                                config={config}
+                                preset={vadSettings.preset}
+                                meter={meter}
+                                onChange={vadSettings.setConfig}
+                                onPresetChange={vadSettings.applyPreset}
+                            />
+                        </CollapsibleContent>
+                    </Collapsible>
+                )}
+
+                {engineLoading && (
+                    <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        Loading neural VAD model...
+                    </div>
+                )}
+
                 {status === "listening" && (
                     <div className="space-y-1">
                         <div className="flex items-center justify-between text-xs">
@@ -515,10 +427,10 @@ export function VADVoiceRecorder({
                     </div>
                 )}
 
-                {isProcessing && (
+                {inFlight > 0 && (
                     <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
                         <Loader2 className="h-3 w-3 animate-spin" />
-                        Processing...
+                        Processing{inFlight > 1 ? ` ${inFlight} segments` : ""}...
                     </div>
                 )}
 
@@ -0,0 +1,93 @@
+'use client'
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/app/components/ui/button';
+import { Input } from '@/app/components/ui/input';
+import { SessionCard } from '@/app/components/SessionCard';
+import { ArrowLeft, History, Loader2, Search } from 'lucide-react';
+import { deleteSession, listSessions, renameSession } from '@/app/lib/history';
+
+export default function HistoryPage() {
+  const [query, setQuery] = useState('');
+  const queryClient = useQueryClient();
+
+  const sessions = useQuery({
+    queryKey: ['sessions', query],
+    queryFn: () => listSessions(query),
+    placeholderData: previous => previous,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['sessions'] });
+  const rename = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) => renameSession(id, title),
+    onSettled: invalidate,
+  });
+  const remove = useMutation({
+    mutationFn: (id: string) => deleteSession(id),
+    onSettled: invalidate,
+  });
+
+  const error = sessions.error || rename.error || remove.error;
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle flex flex-col">
+      <header className="px-6 py-6 flex-shrink-0">
+        <div className="max-w-3xl mx-auto flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm">
+            <Link href="/">
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Back
+            </Link>
+          </Button>
+          <div className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-blue-900" />
+            <h1 className="text-2xl font-bold text-blue-900">Session History</h1>
+          </div>
+          <div className="w-16" />
+        </div>
+      </header>
+
+      <main className="px-6 pb-6 flex-1">
+        <div className="max-w-3xl mx-auto space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search names, transcriptions and gloss"
+              className="pl-9"
+            />
+          </div>
+
+          {error && (
+            <div className="p-2 text-xs text-red-600 bg-red-50 border border-red-200 rounded">
+              {error instanceof Error ? error.message : String(error)}
+            </div>
+          )}
+
+          {sessions.isPending ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading sessions...
+            </div>
+          ) : sessions.data?.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              {query ? 'No sessions match your search.' : 'Sessions appear here once something has been translated.'}
+            </p>
+          ) : (
+            sessions.data?.map(session => (
+              <SessionCard
+                key={session.id}
+                session={session}
+                onRename={title => rename.mutate({ id: session.id, title })}
+                onDelete={() => remove.mutate(session.id)}
+              />
+            ))
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react"
+import { cwasa, type CWASAHook, type CWASAHookListener } from "@/app/lib/cwasa"
+
+export type CWASAStatus = "idle" | "loading" | "ready" | "error"
+
+export interface UseCWASAOptions {
+  /** Avatar slot; the component must render `.CWASAAvatar.av<slot>`. */
+  slot?: number
+  /** Avatar to show; changing it re-initializes the player. */
+  avatar?: string
+  /** Hold off loading, e.g. while the avatar is hidden. */
+  enabled?: boolean
+}
+
+/**
+ * Drives one CWASA avatar slot. The player script is shared by every slot on
+ * the page and loaded on first use; `status` follows that slot's init and
+ * `error` holds the `CWASALoadError` when it fails.
+ */
+export function useCWASA({ slot = 0, avatar, enabled = true }: UseCWASAOptions = {}) {
+  const [status, setStatus] = useState<CWASAStatus>("idle")
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    setStatus("loading")
+    setError(null)
+    cwasa.ready(slot, avatar).then(
+      () => {
+        if (!cancelled) setStatus("ready")
+      },
+      (e: Error) => {
+        if (cancelled) return
+        console.error(`CWASA slot av${slot} failed`, e)
+        setError(e)
+        setStatus("error")
+      }
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, slot, avatar])
+
+  // The container goes away with the component
+  useEffect(() => () => cwasa.release(slot), [slot])
+
+  /** Resolves once this slot's avatar is up; rejects with the load error. */
+  const whenReady = useCallback(() => cwasa.ready(slot), [slot])
+  const play = useCallback((sigml: string) => cwasa.play(sigml, slot), [slot])
+  const stop = useCallback(() => cwasa.stop(slot), [slot])
+  const setSpeed = useCallback((speed: number) => cwasa.setSpeed(speed, slot), [slot])
+  const on = useCallback(
+    <H extends CWASAHook>(hook: H, listener: CWASAHookListener<H>) => cwasa.on(hook, listener, slot),
+    [slot]
+  )
+
+  return { status, ready: status === "ready", error, whenReady, play, stop, setSpeed, on, hasHooks: cwasa.hasHooks }
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch } from "react"
+import type { PipelineAction, SentenceSegment } from "@/app/lib/pipeline"
+import { glossToSigml, textToGloss } from "@/app/lib/translate"
+
+export interface ReplayRequest {
+  sentence: SentenceSegment
+  requestedAt: number
+}
+
+/**
+ * Re-translates finished segments after a manual correction. Only the edited
+ * segment is sent to the backend; a newer edit of the same segment cancels
+ * the older one. `replayRequest` changes whenever a revised sentence should
+ * be signed again.
+ */
+export function useSegmentRevisions(dispatch: Dispatch<PipelineAction>) {
+  const [replayRequest, setReplayRequest] = useState<ReplayRequest | null>(null)
+  const inFlightRef = useRef(new Map<string, AbortController>())
+
+  useEffect(() => {
+    const inFlight = inFlightRef.current
+    return () => inFlight.forEach((abort) => abort.abort())
+  }, [])
+
+  const reviseTranscription = useCallback(
+    async (id: string, transcription: string, { replay = false }: { replay?: boolean } = {}) => {
+      const inFlight = inFlightRef.current
+      inFlight.get(id)?.abort()
+      const abort = new AbortController()
+      inFlight.set(id, abort)
+
+      dispatch({ type: "edit-transcription", id, transcription, editedAt: Date.now() })
+      try {
+        const gloss = await textToGloss(transcription, abort.signal)
+        const sigml = await glossToSigml(gloss, abort.signal)
+        dispatch({ type: "revised", id, gloss, sigml })
+        if (replay) setReplayRequest({ sentence: { id, transcription, gloss, sigml }, requestedAt: Date.now() })
+      } catch (e: any) {
+        if (!abort.signal.aborted) {
+          dispatch({ type: "revision-failed", id, error: e?.message || "Could not translate the corrected text" })
+        }
+      } finally {
+        if (inFlight.get(id) === abort) inFlight.delete(id)
+      }
+    },
+    [dispatch]
+  )
+
+  /** Corrected gloss goes straight to `/gloss-to-sigml`; the transcription is untouched. */
+  const reviseGloss = useCallback(
+    async (segment: SentenceSegment, gloss: string, { replay = false }: { replay?: boolean } = {}) => {
+      const { id, transcription } = segment
+      const inFlight = inFlightRef.current
+      inFlight.get(id)?.abort()
+      const abort = new AbortController()
+      inFlight.set(id, abort)
+
+      dispatch({ type: "edit-gloss", id, gloss, editedAt: Date.now() })
+      try {
+        const sigml = await glossToSigml(gloss, abort.signal)
+        dispatch({ type: "revised", id, sigml })
+        if (replay) setReplayRequest({ sentence: { id, transcription, gloss, sigml }, requestedAt: Date.now() })
+      } catch (e: any) {
+        if (!abort.signal.aborted) {
+          dispatch({ type: "revision-failed", id, error: e?.message || "Could not generate signs for the corrected gloss" })
+        }
+      } finally {
+        if (inFlight.get(id) === abort) inFlight.delete(id)
+      }
+    },
+    [dispatch]
+  )
+
+  return { reviseTranscription, reviseGloss, replayRequest }
+}
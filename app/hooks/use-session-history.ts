@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { selectSegments, type PipelineState } from "@/app/lib/pipeline"
+import {
+  defaultSessionTitle,
+  loadAudioPreference,
+  saveAudioPreference,
+  saveSession,
+  type SessionRecord,
+} from "@/app/lib/history"
+
+// Coalesces the burst of pipeline updates around each segment into one write
+const SAVE_DELAY_MS = 1000
+
+type SessionInfo = Omit<SessionRecord, "segments" | "updatedAt">
+
+/**
+ * Mirrors the pipeline's finished segments into IndexedDB as the current
+ * session. A session starts with its first finished segment; clearing the
+ * page calls `startNewSession`, which saves what is there and lets the next
+ * segment begin a fresh one.
+ */
+export function useSessionHistory(pipeline: PipelineState, { locale }: { locale: string }) {
+  const [saveAudio, setSaveAudioState] = useState(false)
+  const sessionRef = useRef<SessionInfo | null>(null)
+  // Segments whose audio is already stored (or being stored) for the current session
+  const storedAudioRef = useRef(new Set<string>())
+  const pendingRef = useRef<{ session: SessionRecord; audio: Record<string, Blob> } | null>(null)
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setSaveAudioState(loadAudioPreference())
+  }, [])
+
+  const flush = useCallback(() => {
+    const pending = pendingRef.current
+    if (!pending) return
+    pendingRef.current = null
+
+    const audioIds = Object.keys(pending.audio)
+    audioIds.forEach((id) => storedAudioRef.current.add(id))
+    saveSession(pending.session, pending.audio).catch((e) => {
+      console.error("Could not save session history:", e)
+      audioIds.forEach((id) => storedAudioRef.current.delete(id))
+    })
+  }, [])
+
+  useEffect(() => {
+    const finished = selectSegments(pipeline).filter(
+      (s) => s.status === "sigml-ready" || s.status === "played" || s.status === "no-sigml"
+    )
+    if (finished.length === 0) return
+
+    const session = (sessionRef.current ??= {
+      id: `session-${Date.now().toString(36)}`,
+      title: defaultSessionTitle(finished[0].startedAt),
+      locale,
+      startedAt: finished[0].startedAt,
+    })
+
+    const audio: Record<string, Blob> = {}
+    const segments = finished.map(({ id, transcription, gloss, sigml, startedAt, endedAt, machineGloss, edits, audio: blob }) => {
+      if (saveAudio && blob && !storedAudioRef.current.has(id)) audio[id] = blob
+      const hasAudio = storedAudioRef.current.has(id) || id in audio
+      return { id, transcription, gloss, sigml, startedAt, endedAt, machineGloss, edits, hasAudio }
+    })
+    pendingRef.current = { session: { ...session, updatedAt: Date.now(), segments }, audio }
+
+    const timer = setTimeout(flush, SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [pipeline, locale, saveAudio, flush])
+
+  // Don't lose the last few segments when leaving the page
+  useEffect(() => {
+    window.addEventListener("pagehide", flush)
+    return () => {
+      window.removeEventListener("pagehide", flush)
+      flush()
+    }
+  }, [flush])
+
+  const startNewSession = useCallback(() => {
+    flush()
+    sessionRef.current = null
+    storedAudioRef.current = new Set()
+  }, [flush])
+
+  /** Continue a stored session: segments added from now on are appended to it. */
+  const resumeSession = useCallback(
+    ({ id, title, locale, startedAt, segments }: SessionRecord) => {
+      flush()
+      sessionRef.current = { id, title, locale, startedAt }
+      storedAudioRef.current = new Set(segments.filter((s) => s.hasAudio).map((s) => s.id))
+    },
+    [flush]
+  )
+
+  const setSaveAudio = useCallback((enabled: boolean) => {
+    setSaveAudioState(enabled)
+    saveAudioPreference(enabled)
+  }, [])
+
+  return { saveAudio, setSaveAudio, startNewSession, resumeSession }
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { SentenceSegment } from "@/app/lib/pipeline"
+import { glossTokens } from "@/app/lib/gloss"
+import { singleSignSigml } from "@/app/lib/sigml"
+
+export interface SignPractice {
+  segmentId: string
+  /** Position of the sign in the segment's gloss. */
+  index: number
+  gloss: string
+  sigml: string
+  requestedAt: number
+}
+
+export interface SignRef {
+  segmentId: string
+  index: number
+}
+
+/**
+ * Plays single signs from a segment's gloss so a student can re-check one
+ * they missed. `practice` is the sign the avatar should sign now; with
+ * `loop` on it repeats until stopped.
+ */
+export function useSignPractice() {
+  const [practice, setPractice] = useState<SignPractice | null>(null)
+  const [loading, setLoading] = useState<SignRef | null>(null)
+  const [loop, setLoop] = useState(false)
+  const [error, setError] = useState("")
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const playSign = useCallback(async (segment: SentenceSegment, index: number) => {
+    const tokens = glossTokens(segment.gloss)
+    const token = tokens[index]
+    if (!token) return
+
+    abortRef.current?.abort()
+    const abort = new AbortController()
+    abortRef.current = abort
+    setError("")
+    setLoading({ segmentId: segment.id, index })
+
+    try {
+      // Which repeat of this token was clicked, e.g. the second ME in "ME LIKE ME"
+      const occurrence = tokens.slice(0, index).filter((t) => t === token).length
+      const sigml = await singleSignSigml(token, segment.sigml, occurrence, abort.signal)
+      if (!abort.signal.aborted) {
+        setPractice({ segmentId: segment.id, index, gloss: token, sigml, requestedAt: Date.now() })
+      }
+    } catch (e: any) {
+      if (!abort.signal.aborted) setError(e?.message || `Could not load the sign for ${token}`)
+    } finally {
+      if (abortRef.current === abort) {
+        abortRef.current = null
+        setLoading(null)
+      }
+    }
+  }, [])
+
+  /** The avatar finished a practice sign that is not looping. */
+  const finish = useCallback(
+    (requestedAt: number) => setPractice((current) => (current?.requestedAt === requestedAt ? null : current)),
+    []
+  )
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort()
+    setLoading(null)
+    setPractice(null)
+  }, [])
+
+  return { practice, loading, loop, setLoop, error, playSign, finish, stop }
+}
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from "react"
+import {
+  defaultTranscriptionProviderId,
+  loadTranscriptionProviderPreference,
+  saveTranscriptionProviderPreference,
+  type TranscriptionProviderId,
+} from "@/app/lib/transcription"
+
+/**
+ * Speech-to-text provider remembered per browser. Until one is picked the
+ * NEXT_PUBLIC_TRANSCRIPTION_PROVIDER default applies.
+ */
+export function useTranscriptionProvider() {
+  const [provider, setProviderState] = useState<TranscriptionProviderId>(defaultTranscriptionProviderId)
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const stored = loadTranscriptionProviderPreference()
+    if (stored) setProviderState(stored)
+  }, [])
+
+  const setProvider = useCallback((id: TranscriptionProviderId) => {
+    setProviderState(id)
+    saveTranscriptionProviderPreference(id)
+  }, [])
+
+  return { provider, setProvider }
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from "react"
+import {
+  loadVADSettings,
+  resolveVADConfig,
+  saveVADSettings,
+  VAD_PRESETS,
+  type StoredVADSettings,
+  type VADConfig,
+  type VADPresetId,
+} from "@/app/lib/vad/config"
+
+/**
+ * VAD configuration remembered per browser. `defaults` seed the first visit;
+ * afterwards the stored preset or custom tuning wins.
+ */
+export function useVADSettings(defaults?: Partial<VADConfig>) {
+  const [settings, setSettings] = useState<StoredVADSettings>(() => ({
+    preset: defaults ? "custom" : "quiet-room",
+    config: resolveVADConfig(defaults),
+  }))
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const stored = loadVADSettings()
+    if (stored) setSettings(stored)
+  }, [])
+
+  const update = useCallback((next: StoredVADSettings) => {
+    setSettings(next)
+    saveVADSettings(next)
+  }, [])
+
+  const applyPreset = useCallback(
+    (preset: VADPresetId) => update({ preset, config: VAD_PRESETS[preset].config }),
+    [update]
+  )
+
+  const setConfig = useCallback((config: VADConfig) => update({ preset: "custom", config }), [update])
+
+  return { config: settings.config, preset: settings.preset, applyPreset, setConfig }
+}
@@ -0,0 +1,26 @@
+/**
+ * Decodes a recorded file (WAV, MP3, OGG — whatever the browser's
+ * `decodeAudioData` supports) to mono samples at `sampleRate`. The browser
+ * resamples while decoding, so the result can go straight to the VAD.
+ */
+export async function decodeAudioFile(file: Blob, sampleRate = 16000): Promise<Float32Array> {
+  const data = await file.arrayBuffer();
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  let decoded: AudioBuffer;
+  try {
+    decoded = await ctx.decodeAudioData(data);
+  } catch {
+    throw new Error("Unsupported or corrupt audio file");
+  }
+
+  if (decoded.numberOfChannels === 1) return decoded.getChannelData(0).slice();
+
+  // Downmix by averaging the channels
+  const mono = new Float32Array(decoded.length);
+  for (let c = 0; c < decoded.numberOfChannels; c++) {
+    const channel = decoded.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i];
+  }
+  for (let i = 0; i < mono.length; i++) mono[i] /= decoded.numberOfChannels;
+  return mono;
+}
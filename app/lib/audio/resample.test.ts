@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { PolyphaseResampler, resample } from "@/app/lib/audio/resample";
+
+const OUT_RATE = 16000;
+
+const tone = (frequency: number, sampleRate: number, seconds = 1, amplitude = 0.5) => {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  for (let i = 0; i < samples.length; i++) samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  return samples;
+};
+
+/** Amplitude of the `frequency` component (single-bin DFT), ignoring the filter's edge transients. */
+function amplitudeAt(samples: Float32Array, frequency: number, sampleRate: number) {
+  const edge = Math.round(sampleRate * 0.05);
+  let re = 0;
+  let im = 0;
+  for (let i = edge; i < samples.length - edge; i++) {
+    const phase = (2 * Math.PI * frequency * i) / sampleRate;
+    re += samples[i] * Math.cos(phase);
+    im += samples[i] * Math.sin(phase);
+  }
+  return (2 * Math.hypot(re, im)) / (samples.length - 2 * edge);
+}
+
+const db = (ratio: number) => 20 * Math.log10(ratio);
+
+describe.each([48000, 44100])("resample from %i Hz to 16 kHz", (inRate) => {
+  it("keeps the amplitude and timing of an in-band tone", () => {
+    const out = resample(tone(1000, inRate), inRate, OUT_RATE);
+
+    expect(out.length).toBe(OUT_RATE);
+    expect(amplitudeAt(out, 1000, OUT_RATE)).toBeCloseTo(0.5, 2);
+    // Time-aligned with the input: matches the tone sampled directly at 16 kHz
+    const expected = tone(1000, OUT_RATE);
+    for (let i = 800; i < out.length - 800; i += 97) expect(out[i]).toBeCloseTo(expected[i], 2);
+  });
+
+  it("keeps a tone near the top of the speech band", () => {
+    const out = resample(tone(6000, inRate), inRate, OUT_RATE);
+    expect(db(amplitudeAt(out, 6000, OUT_RATE) / 0.5)).toBeGreaterThan(-0.5);
+  });
+
+  it("attenuates a tone above 8 kHz instead of aliasing it into the speech band", () => {
+    const frequency = 11000;
+    // Naive decimation would fold 11 kHz back to 16 - 11 = 5 kHz
+    const alias = OUT_RATE - frequency;
+    const out = resample(tone(frequency, inRate), inRate, OUT_RATE);
+
+    expect(db(amplitudeAt(out, alias, OUT_RATE) / 0.5)).toBeLessThan(-60);
+    // Nothing else leaks into the output either
+    let energy = 0;
+    for (let i = 800; i < out.length - 800; i++) energy += out[i] * out[i];
+    const rms = Math.sqrt(energy / (out.length - 1600));
+    expect(db(rms / (0.5 / Math.SQRT2))).toBeLessThan(-60);
+  });
+
+  it("streams in blocks with the same result as a one-shot conversion", () => {
+    const input = tone(1000, inRate);
+    const resampler = new PolyphaseResampler(inRate, OUT_RATE);
+    const blocks: Float32Array[] = [];
+    // Odd block size so block edges never line up with the rate ratio
+    for (let offset = 0; offset < input.length; offset += 509) blocks.push(resampler.process(input.subarray(offset, offset + 509)));
+    blocks.push(resampler.flush());
+
+    const streamed = new Float32Array(blocks.reduce((n, block) => n + block.length, 0));
+    let offset = 0;
+    for (const block of blocks) {
+      streamed.set(block, offset);
+      offset += block.length;
+    }
+
+    const oneShot = resample(input, inRate, OUT_RATE);
+    expect(streamed.length).toBe(oneShot.length);
+    for (let i = 0; i < oneShot.length; i += 53) expect(streamed[i]).toBeCloseTo(oneShot[i], 6);
+  });
+});
+
+it("returns the input unchanged when the rates match", () => {
+  const input = tone(1000, OUT_RATE);
+  expect(resample(input, OUT_RATE, OUT_RATE)).toBe(input);
+});
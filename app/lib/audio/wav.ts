@@ -0,0 +1,73 @@
+/** 16-bit PCM WAV encoding for transcription uploads and exports. */
+
+export const floatTo16BitPCM = (input: Float32Array) => {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    output[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return output;
+};
+
+export const encodeWav = (pcm16: Int16Array, sampleRate: number) => {
+  const buffer = new ArrayBuffer(44 + pcm16.length * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + pcm16.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // PCM
+  view.setUint16(20, 1, true); // format
+  view.setUint16(22, 1, true); // channels
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, "data");
+  view.setUint32(40, pcm16.length * 2, true);
+
+  let offset = 44;
+  for (let i = 0; i < pcm16.length; i++, offset += 2) view.setInt16(offset, pcm16[i], true);
+
+  return new Blob([view], { type: "audio/wav" });
+};
+
+/** Reads back a mono 16-bit PCM WAV such as the ones `encodeWav` produces. */
+export const decodeWav = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode.apply(null, Array.from(new Uint8Array(buffer, offset, length)));
+
+  if (buffer.byteLength < 12 || readString(0, 4) !== "RIFF" || readString(8, 4) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readString(offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      const format = view.getUint16(body, true);
+      const channels = view.getUint16(body + 2, true);
+      const bits = view.getUint16(body + 14, true);
+      if (format !== 1 || channels !== 1 || bits !== 16) throw new Error("Only mono 16-bit PCM WAV is supported");
+      sampleRate = view.getUint32(body + 4, true);
+    } else if (id === "data") {
+      if (!sampleRate) throw new Error("WAV data chunk before format chunk");
+      const length = Math.floor(Math.min(size, buffer.byteLength - body) / 2);
+      const pcm16 = new Int16Array(length);
+      for (let i = 0; i < length; i++) pcm16[i] = view.getInt16(body + i * 2, true);
+      return { pcm16, sampleRate };
+    }
+    // Chunks are padded to an even size
+    offset = body + size + (size & 1);
+  }
+  throw new Error("WAV file has no audio data");
+};
@@ -0,0 +1,236 @@
+import { z } from "zod";
+import { isMockBackendEnabled, MOCK_BACKEND_BASE_URL } from "@/app/lib/mock-backend";
+
+/**
+ * Client for the Speak2Sign backend (NEXT_PUBLIC_API_URL).
+ *
+ * The request/response contracts live here as zod schemas, and every response
+ * is validated before use. Failures are reported as one of three error types:
+ * - `BackendNetworkError`: no response at all (offline, CORS, timeout);
+ * - `BackendHttpError`: a non-2xx status;
+ * - `BackendSchemaError`: a 2xx response that does not match the contract.
+ *
+ * Network errors, timeouts, 408/429 and 5xx are retried with exponential
+ * backoff; everything else fails immediately.
+ */
+
+// ---- Contracts ----
+
+export const textToGlossRequestSchema = z.object({ text: z.string().trim().min(1) });
+export const textToGlossResponseSchema = z.object({ gloss: z.string() });
+
+export const glossToSigmlRequestSchema = z.object({ gloss: z.string().trim().min(1) });
+export const glossToSigmlResponseSchema = z.object({ sigml: z.string() });
+
+/** `/transcribe` answers with `text` (older builds used `transcription`). */
+export const transcribeResponseSchema = z
+  .object({ text: z.string().optional(), transcription: z.string().optional() })
+  .transform(({ text, transcription }) => ({ text: text ?? transcription ?? "" }));
+
+export type TextToGlossRequest = z.infer<typeof textToGlossRequestSchema>;
+export type TextToGlossResponse = z.infer<typeof textToGlossResponseSchema>;
+export type GlossToSigmlRequest = z.infer<typeof glossToSigmlRequestSchema>;
+export type GlossToSigmlResponse = z.infer<typeof glossToSigmlResponseSchema>;
+export type TranscribeResponse = z.infer<typeof transcribeResponseSchema>;
+
+export type BackendEndpoint = "/text-to-gloss" | "/gloss-to-sigml" | "/transcribe";
+
+const ENDPOINT_LABELS: Record<BackendEndpoint, string> = {
+  "/text-to-gloss": "Gloss conversion",
+  "/gloss-to-sigml": "SiGML generation",
+  "/transcribe": "Backend transcription",
+};
+
+// ---- Errors ----
+
+export class BackendError extends Error {
+  constructor(
+    message: string,
+    readonly endpoint: BackendEndpoint
+  ) {
+    super(message);
+    this.name = "BackendError";
+  }
+}
+
+/** The request produced no response: offline, DNS/CORS failure, or `timedOut`. */
+export class BackendNetworkError extends BackendError {
+  constructor(
+    endpoint: BackendEndpoint,
+    readonly timedOut: boolean,
+    readonly cause?: unknown
+  ) {
+    super(`${ENDPOINT_LABELS[endpoint]} failed: ${timedOut ? "request timed out" : "backend unreachable"}`, endpoint);
+    this.name = "BackendNetworkError";
+  }
+}
+
+export class BackendHttpError extends BackendError {
+  constructor(
+    endpoint: BackendEndpoint,
+    readonly status: number,
+    readonly body: string
+  ) {
+    super(`${ENDPOINT_LABELS[endpoint]} failed: HTTP ${status}`, endpoint);
+    this.name = "BackendHttpError";
+  }
+}
+
+/** The request or the response did not match the contract. */
+export class BackendSchemaError extends BackendError {
+  constructor(
+    endpoint: BackendEndpoint,
+    readonly issues: z.ZodIssue[],
+    readonly direction: "request" | "response" = "response"
+  ) {
+    const detail = issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ");
+    super(`${ENDPOINT_LABELS[endpoint]} failed: invalid ${direction}${detail ? ` (${detail})` : ""}`, endpoint);
+    this.name = "BackendSchemaError";
+  }
+}
+
+export const isRetryableBackendError = (error: unknown) =>
+  error instanceof BackendNetworkError ||
+  (error instanceof BackendHttpError && (error.status >= 500 || error.status === 408 || error.status === 429));
+
+// ---- Client ----
+
+export interface Speak2SignClientOptions {
+  /** Defaults to `backendUrl()`. */
+  baseUrl?: string;
+  /** Per-attempt timeout. */
+  timeoutMs?: number;
+  /** Retries after the first attempt for retryable failures. */
+  retries?: number;
+  /** First backoff delay; doubles on each retry, with jitter. */
+  retryDelayMs?: number;
+}
+
+export interface BackendRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface Speak2SignClient {
+  readonly baseUrl: string;
+  textToGloss(request: TextToGlossRequest, options?: BackendRequestOptions): Promise<TextToGlossResponse>;
+  glossToSigml(request: GlossToSigmlRequest, options?: BackendRequestOptions): Promise<GlossToSigmlResponse>;
+  transcribe(
+    request: { audio: Blob; locale: string },
+    options?: BackendRequestOptions
+  ): Promise<TranscribeResponse>;
+}
+
+/** NEXT_PUBLIC_API_URL, or the bundled mock routes when NEXT_PUBLIC_MOCK_BACKEND is set. */
+export const backendUrl = () =>
+  isMockBackendEnabled() ? MOCK_BACKEND_BASE_URL : process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000";
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export function createSpeak2SignClient({
+  baseUrl = backendUrl(),
+  timeoutMs = 15000,
+  retries = 2,
+  retryDelayMs = 400,
+}: Speak2SignClientOptions = {}): Speak2SignClient {
+  const attempt = async <T>(
+    endpoint: BackendEndpoint,
+    init: RequestInit,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    // One controller per attempt, aborted by the timeout or by the caller
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      let resp: Response;
+      let body: string;
+      try {
+        resp = await fetch(`${baseUrl}${endpoint}`, { ...init, signal: controller.signal });
+        body = await resp.text();
+      } catch (e) {
+        // A caller abort is not a backend failure; let it through untouched
+        if (signal?.aborted) throw e;
+        throw new BackendNetworkError(endpoint, controller.signal.aborted, e);
+      }
+
+      if (!resp.ok) throw new BackendHttpError(endpoint, resp.status, body);
+
+      let json: unknown;
+      try {
+        json = JSON.parse(body);
+      } catch {
+        throw new BackendSchemaError(endpoint, [{ code: z.ZodIssueCode.custom, path: [], message: "not JSON" }]);
+      }
+      const parsed = schema.safeParse(json);
+      if (!parsed.success) throw new BackendSchemaError(endpoint, parsed.error.issues);
+      return parsed.data;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  const request = async <T>(
+    endpoint: BackendEndpoint,
+    init: RequestInit,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await attempt(endpoint, init, schema, signal);
+      } catch (e) {
+        if (retry >= retries || !isRetryableBackendError(e) || signal?.aborted) throw e;
+        await delay(retryDelayMs * 2 ** retry * (0.75 + Math.random() * 0.5), signal);
+      }
+    }
+  };
+
+  const json = <T>(requestSchema: z.ZodType<T>, endpoint: BackendEndpoint, payload: T): RequestInit => {
+    const parsed = requestSchema.safeParse(payload);
+    if (!parsed.success) throw new BackendSchemaError(endpoint, parsed.error.issues, "request");
+    return {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(parsed.data),
+    };
+  };
+
+  return {
+    baseUrl,
+    async textToGloss(payload, { signal } = {}) {
+      const init = json(textToGlossRequestSchema, "/text-to-gloss", payload);
+      return request("/text-to-gloss", init, textToGlossResponseSchema, signal);
+    },
+    async glossToSigml(payload, { signal } = {}) {
+      const init = json(glossToSigmlRequestSchema, "/gloss-to-sigml", payload);
+      return request("/gloss-to-sigml", init, glossToSigmlResponseSchema, signal);
+    },
+    async transcribe({ audio, locale }, { signal } = {}) {
+      const form = new FormData();
+      form.append("audio", audio, "segment.wav");
+      form.append("locale", locale || "en-US");
+      return request("/transcribe", { method: "POST", body: form }, transcribeResponseSchema, signal);
+    },
+  };
+}
+
+let defaultClient: Speak2SignClient | null = null;
+
+/** Shared client configured from the environment. */
+export const getSpeak2SignClient = () => (defaultClient ??= createSpeak2SignClient());
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CWASAController, frameSignIndex, type CWASAConfig, type CWASAFrame } from "@/app/lib/cwasa";
+
+// Just enough DOM for the controller: mounted `.CWASAAvatar.av<n>` containers and a CWASA global
+const mounted = new Set<number>();
+const init = vi.fn<(config?: CWASAConfig) => void>();
+// Callbacks the player was given, in registration order
+const hooks: { hook: string; fn: (...args: unknown[]) => void; slot: number }[] = [];
+
+const initializedAvatars = () => init.mock.calls.map(([config]) => config.avSettings.map((s) => s.initAv));
+
+const mount = (controller: CWASAController, slot: number, avatar?: string) => {
+  mounted.add(slot);
+  return controller.ready(slot, avatar);
+};
+
+const unmount = (controller: CWASAController, slot: number) => {
+  mounted.delete(slot);
+  controller.release(slot);
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  mounted.clear();
+  init.mockReset();
+  hooks.length = 0;
+  vi.spyOn(console, "info").mockImplementation(() => {});
+  const addHook = (hook: string, fn: (...args: unknown[]) => void, slot: number) => hooks.push({ hook, fn, slot });
+  vi.stubGlobal("window", { CWASA: { init, playSiGMLText: vi.fn(), addHook } });
+  vi.stubGlobal("document", {
+    getElementById: () => ({}),
+    querySelector: (selector: string) => (mounted.has(Number(/\.av(\d+)$/.exec(selector)[1])) ? {} : null),
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("CWASAController", () => {
+  it("initializes slots that mount together in one go", async () => {
+    const controller = new CWASAController();
+    const ready = Promise.all([mount(controller, 0), mount(controller, 1, "siggi")]);
+    await vi.runAllTimersAsync();
+    await ready;
+
+    expect(initializedAvatars()).toEqual([["luna", "siggi"]]);
+    expect(controller.isReady(1)).toBe(true);
+  });
+
+  it.each([
+    ["first to last", [1, 2]],
+    ["last to first", [2, 1]],
+  ])("forgets extra slots released %s", async (_, order) => {
+    const controller = new CWASAController();
+    const ready = Promise.all([mount(controller, 0), mount(controller, 1, "siggi"), mount(controller, 2, "anna")]);
+    await vi.runAllTimersAsync();
+    await ready;
+
+    order.forEach((slot) => unmount(controller, slot));
+    const switched = controller.setAvatar("marc", 0);
+    await vi.runAllTimersAsync();
+    await switched;
+
+    expect(initializedAvatars()).toEqual([["luna", "siggi", "anna"], ["marc"]]);
+    expect(controller.isReady(0)).toBe(true);
+    expect(controller.isReady(1)).toBe(false);
+  });
+
+  it("keeps a released slot while a later slot is still mounted", async () => {
+    const controller = new CWASAController();
+    const ready = Promise.all([mount(controller, 0), mount(controller, 1), mount(controller, 2)]);
+    await vi.runAllTimersAsync();
+    await ready;
+
+    controller.release(1);
+    const remounted = mount(controller, 1, "anna");
+    await vi.runAllTimersAsync();
+    await remounted;
+
+    expect(initializedAvatars()[1]).toEqual(["luna", "anna", "luna"]);
+  });
+
+  it("forwards frames to the slot's listeners and silences hooks from an older init", async () => {
+    const controller = new CWASAController();
+    const frames: CWASAFrame[] = [];
+    controller.on("avatarframe", (frame) => frames.push(frame), 0);
+    const ready = mount(controller, 0);
+    await vi.runAllTimersAsync();
+    await ready;
+
+    const first = hooks.find((h) => h.hook === "avatarframe" && h.slot === 0);
+    first.fn({ s: 2 });
+    expect(frames).toEqual([{ s: 2 }]);
+
+    const switched = controller.setAvatar("anna", 0);
+    await vi.runAllTimersAsync();
+    await switched;
+    first.fn({ s: 3 });
+    hooks[hooks.length - 1].fn({ sign: 4 });
+    expect(frames).toEqual([{ s: 2 }, { sign: 4 }]);
+  });
+});
+
+describe("frameSignIndex", () => {
+  it("reads the sign index under any of its known names", () => {
+    expect([{ s: 1 }, { sign: 2 }, { signIndex: 0 }].map(frameSignIndex)).toEqual([1, 2, 0]);
+  });
+
+  it("returns -1 when a frame has no sign index", () => {
+    expect([undefined, {}, { s: -1 }].map(frameSignIndex)).toEqual([-1, -1, -1]);
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Typed access to CWASA, the JASigning avatar player in
+ * `/jas/loc2025/cwa/allcsa.js`.
+ *
+ * The script is injected once per page. `CWASA.init` scans the DOM for
+ * `.CWASAAvatar.av0`, `.av1`, … containers, so slots that mount together are
+ * collected into one init, and a slot or avatar that changes later
+ * re-initializes every slot. All state lives in the `cwasa` singleton; React
+ * components use it through `useCWASA`.
+ */
+
+export const CWASA_AVATARS = ["luna", "siggi", "anna", "marc", "francoise"] as const;
+export type CWASAAvatar = (typeof CWASA_AVATARS)[number];
+export const DEFAULT_AVATAR: CWASAAvatar = "luna";
+
+export const AVATAR_LABELS: Record<CWASAAvatar, string> = {
+  luna: "Luna",
+  siggi: "Siggi",
+  anna: "Anna",
+  marc: "Marc",
+  francoise: "Françoise",
+};
+
+/**
+ * Payload of the `avatarframe` hook, sent for every rendered frame. Only the
+ * index of the sign being animated (0-based within the document) is used.
+ * Builds differ in its name and the player script is not vendored here, so
+ * every field is optional and a frame may carry none of them; read it with
+ * `frameSignIndex`.
+ */
+export interface CWASAFrame {
+  s?: number;
+  sign?: number;
+  signIndex?: number;
+}
+
+/** Arguments of each status callback registered with `CWASA.addHook`. */
+export interface CWASAHookArgs {
+  /** An animation started. */
+  animactive: [];
+  /** The avatar went idle: the document has been signed. */
+  animidle: [];
+  avatarframe: [frame: CWASAFrame];
+}
+
+export type CWASAHook = keyof CWASAHookArgs;
+export type CWASAHookListener<H extends CWASAHook> = (...args: CWASAHookArgs[H]) => void;
+
+export interface CWASAAvatarSettings {
+  /** Name of the config key holding the avatars offered in the menu. */
+  avList: string;
+  initAv: string;
+}
+
+export interface CWASAConfig {
+  /** One entry per slot, in `av0`, `av1`, … order. */
+  avSettings: CWASAAvatarSettings[];
+  /** Avatar lists referenced by `avList`. */
+  [avList: string]: readonly string[] | CWASAAvatarSettings[];
+}
+
+/** The `window.CWASA` global. Optional members are missing in older builds. */
+export interface CWASAGlobal {
+  init: (config?: CWASAConfig) => void;
+  playSiGMLURL: (url: string, avIdx?: number) => void;
+  playSiGMLText: (text: string, avIdx?: number) => void;
+  stopSiGML?: (avIdx?: number) => void;
+  setSpeed?: (speed: number, avIdx?: number) => void;
+  addHook?: <H extends CWASAHook>(hook: H, fn: CWASAHookListener<H>, avIdx?: number) => void;
+}
+
+declare global {
+  interface Window {
+    CWASA?: CWASAGlobal;
+  }
+}
+
+const SCRIPT_ID = "cwasa-js";
+const SCRIPT_SRC = "/jas/loc2025/cwa/allcsa.js";
+const STYLESHEET_ID = "cwasa-css";
+const STYLESHEET_HREF = "/jas/loc2025/cwa/cwasa.css";
+const AVATAR_LIST = "avsbsl";
+const AVATAR_PREFERENCE_KEY = "speak2sign.avatar";
+
+// Slots that ask for an avatar within this window share one init
+const INIT_DELAY_MS = 250;
+// CWASA only sees containers present at init; wait up to 3 s for them to mount
+const CONTAINER_POLL_MS = 250;
+const CONTAINER_POLL_LIMIT = 12;
+
+const log = (message: string) => console.info(`[CWASA ${new Date().toISOString().slice(11, 23)}] ${message}`);
+
+// ---- Errors ----
+
+/** The player script failed to load, a container never mounted, or `CWASA.init` threw. */
+export class CWASALoadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CWASALoadError";
+  }
+}
+
+// ---- Controller ----
+
+export class CWASAController {
+  private script: Promise<CWASAGlobal> | null = null;
+  /** Requested avatar per slot. */
+  private avatars: string[] = [];
+  /** Slots whose container is gone; dropped from `avatars` once no mounted slot follows them. */
+  private released = new Set<number>();
+  /** Avatars of the last successful init; null until then. */
+  private initialized: string[] | null = null;
+  /** Avatars `lastInit` is for; cleared when that init fails so the next caller retries. */
+  private target: string[] | null = null;
+  private pendingInit: Promise<void> | null = null;
+  private lastInit: Promise<void> = Promise.resolve();
+  // Bumped on every init so hooks registered for an older one go quiet
+  private generation = 0;
+  // Keyed `${hook}:${slot}`; each set only holds listeners for that hook
+  private listeners = new Map<string, Set<CWASAHookListener<CWASAHook>>>();
+
+  /** Loads the stylesheet and player script; every caller shares one load. */
+  load(): Promise<CWASAGlobal> {
+    if (this.script) return this.script;
+
+    this.script = new Promise<CWASAGlobal>((resolve, reject) => {
+      if (typeof window === "undefined") {
+        reject(new CWASALoadError("CWASA can only be loaded in the browser"));
+        return;
+      }
+      if (!document.getElementById(STYLESHEET_ID)) {
+        const css = document.createElement("link");
+        css.id = STYLESHEET_ID;
+        css.rel = "stylesheet";
+        css.href = STYLESHEET_HREF;
+        document.head.appendChild(css);
+      }
+      if (window.CWASA) {
+        resolve(window.CWASA);
+        return;
+      }
+
+      const loaded = () =>
+        window.CWASA ? resolve(window.CWASA) : reject(new CWASALoadError(`${SCRIPT_SRC} loaded but did not define CWASA`));
+      const failed = () => reject(new CWASALoadError(`Could not load the avatar player (${SCRIPT_SRC})`));
+
+      let js = document.getElementById(SCRIPT_ID) as HTMLScriptElement | null;
+      if (!js) {
+        js = document.createElement("script");
+        js.id = SCRIPT_ID;
+        js.type = "text/javascript";
+        js.src = SCRIPT_SRC;
+        document.head.appendChild(js);
+        log("injected player script");
+      }
+      js.addEventListener("load", loaded, { once: true });
+      js.addEventListener("error", failed, { once: true });
+    });
+
+    // A failed load can be retried by the next caller
+    this.script.catch(() => {
+      document.getElementById(SCRIPT_ID)?.remove();
+      this.script = null;
+    });
+    return this.script;
+  }
+
+  /**
+   * Resolves once `slot` shows `avatar` (by default whatever it shows now,
+   * else luna). Rejects with `CWASALoadError`.
+   */
+  ready(slot = 0, avatar?: string): Promise<void> {
+    this.released.delete(slot);
+    this.avatars[slot] = avatar || this.avatars[slot] || DEFAULT_AVATAR;
+    for (let i = 0; i < slot; i++) this.avatars[i] = this.avatars[i] || DEFAULT_AVATAR;
+
+    if (this.pendingInit) return this.pendingInit;
+    const target = this.target;
+    if (target && target.length === this.avatars.length && this.avatars.every((name, i) => target[i] === name)) {
+      return this.lastInit;
+    }
+    return this.scheduleInit();
+  }
+
+  /**
+   * Marks `slot`'s container as gone. Its avatar must be re-initialized when a
+   * container mounts again; trailing released slots are dropped from future
+   * inits, whatever order they were released in.
+   */
+  release(slot = 0) {
+    if (this.initialized) this.initialized = this.initialized.slice(0, slot);
+    if (this.target) this.target = this.target.slice(0, slot);
+    this.released.add(slot);
+    while (this.avatars.length > 0 && this.released.has(this.avatars.length - 1)) {
+      this.released.delete(this.avatars.length - 1);
+      this.avatars.length--;
+    }
+  }
+
+  isReady(slot = 0) {
+    return !!this.initialized && slot < this.initialized.length;
+  }
+
+  /** Avatar shown in `slot` (or about to be). */
+  avatar(slot = 0) {
+    return this.avatars[slot] || DEFAULT_AVATAR;
+  }
+
+  /** Switches the avatar in `slot`; every slot is re-initialized. */
+  setAvatar(avatar: string, slot = 0) {
+    return this.ready(slot, avatar);
+  }
+
+  get hasHooks() {
+    return typeof window !== "undefined" && typeof window.CWASA?.addHook === "function";
+  }
+
+  play(sigml: string, slot = 0) {
+    const cwasa = this.require(slot);
+    cwasa.playSiGMLText(sigml, slot);
+  }
+
+  /** Stops the current animation; false when this CWASA build cannot. */
+  stop(slot = 0) {
+    const cwasa = this.require(slot);
+    if (!cwasa.stopSiGML) return false;
+    cwasa.stopSiGML(slot);
+    return true;
+  }
+
+  /** Sets the playback speed; false when this CWASA build cannot. */
+  setSpeed(speed: number, slot = 0) {
+    const cwasa = this.require(slot);
+    if (!cwasa.setSpeed) return false;
+    cwasa.setSpeed(speed, slot);
+    return true;
+  }
+
+  /** Subscribes to a status hook of one slot; returns the unsubscribe function. */
+  on<H extends CWASAHook>(hook: H, listener: CWASAHookListener<H>, slot = 0) {
+    const key = `${hook}:${slot}`;
+    let listeners = this.listeners.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(key, listeners);
+      if (this.initialized) this.registerHook(hook, slot);
+    }
+    const entry = listener as CWASAHookListener<CWASAHook>;
+    listeners.add(entry);
+    return () => {
+      listeners.delete(entry);
+    };
+  }
+
+  private require(slot: number) {
+    if (!window.CWASA || !this.isReady(slot)) throw new CWASALoadError(`Avatar av${slot} is not ready`);
+    return window.CWASA;
+  }
+
+  private scheduleInit() {
+    if (this.pendingInit) return this.pendingInit;
+
+    const run = new Promise<void>((resolve) => setTimeout(resolve, INIT_DELAY_MS)).then(() => {
+      this.pendingInit = null;
+      const avatars = [...this.avatars];
+      this.target = avatars;
+      return this.init(avatars).catch((e) => {
+        if (this.target === avatars) this.target = null;
+        throw e;
+      });
+    });
+    this.pendingInit = run;
+    this.lastInit = run;
+    return run;
+  }
+
+  private async init(avatars: string[]) {
+    const cwasa = await this.load();
+    await waitForContainers(avatars.length);
+
+    const config: CWASAConfig = {
+      [AVATAR_LIST]: CWASA_AVATARS,
+      avSettings: avatars.map((initAv) => ({ avList: AVATAR_LIST, initAv })),
+    };
+    log(`init ${avatars.map((name, i) => `av${i}=${name}`).join(" ")}`);
+    try {
+      cwasa.init(config);
+    } catch (e: any) {
+      throw new CWASALoadError(`CWASA.init failed: ${e?.message || e}`);
+    }
+
+    this.initialized = avatars;
+    this.generation++;
+    this.listeners.forEach((_, key) => {
+      const [hook, slot] = key.split(":");
+      this.registerHook(hook as CWASAHook, Number(slot));
+    });
+  }
+
+  private registerHook<H extends CWASAHook>(hook: H, slot: number) {
+    const cwasa = window.CWASA;
+    if (!cwasa?.addHook) return;
+    const generation = this.generation;
+    cwasa.addHook(
+      hook,
+      (...args: CWASAHookArgs[H]) => {
+        if (generation !== this.generation) return;
+        this.listeners.get(`${hook}:${slot}`)?.forEach((listener) => listener(...args));
+      },
+      slot
+    );
+  }
+}
+
+async function waitForContainers(count: number) {
+  for (let attempt = 0; ; attempt++) {
+    let missing = -1;
+    for (let slot = 0; slot < count && missing < 0; slot++) {
+      if (!document.querySelector(`.CWASAAvatar.av${slot}`)) missing = slot;
+    }
+    if (missing < 0) return;
+    if (attempt >= CONTAINER_POLL_LIMIT) throw new CWASALoadError(`Avatar container .CWASAAvatar.av${missing} is missing`);
+    await new Promise((resolve) => setTimeout(resolve, CONTAINER_POLL_MS));
+  }
+}
+
+export const cwasa = new CWASAController();
+
+/** Index of the sign a frame belongs to, or -1 when this build's frames don't say. */
+export function frameSignIndex(frame: CWASAFrame | undefined): number {
+  const index = frame?.s ?? frame?.sign ?? frame?.signIndex;
+  return typeof index === "number" && index >= 0 ? index : -1;
+}
+
+// ---- Preferences ----
+
+export const isCWASAAvatar = (value: unknown): value is CWASAAvatar =>
+  (CWASA_AVATARS as readonly unknown[]).includes(value);
+
+/** The avatar this browser picked last, or luna. */
+export function loadAvatarPreference(): CWASAAvatar {
+  if (typeof window === "undefined") return DEFAULT_AVATAR;
+  try {
+    const stored = window.localStorage.getItem(AVATAR_PREFERENCE_KEY);
+    return isCWASAAvatar(stored) ? stored : DEFAULT_AVATAR;
+  } catch {
+    return DEFAULT_AVATAR;
+  }
+}
+
+export function saveAvatarPreference(avatar: CWASAAvatar) {
+  try {
+    window.localStorage.setItem(AVATAR_PREFERENCE_KEY, avatar);
+  } catch {
+    // Storage full or disabled; the preference just won't persist
+  }
+}
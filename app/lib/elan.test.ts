@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { toEaf } from "@/app/lib/elan";
+import type { ExportSegment } from "@/app/lib/export";
+
+const T0 = Date.UTC(2026, 9, 19, 9, 30);
+
+const segment = (id: string, transcription: string, gloss: string, start: number, end = start): ExportSegment => ({
+  id,
+  transcription,
+  gloss,
+  sigml: "",
+  startedAt: T0 + start,
+  endedAt: T0 + end,
+});
+
+/** [start, end, value] of every annotation on `tier`, resolved through TIME_ORDER. */
+function annotations(eaf: string, tier: string) {
+  const slots = new Map<string, number | undefined>();
+  const slotPattern = /TIME_SLOT_ID="(\w+)"(?: TIME_VALUE="(\d+)")?/g;
+  for (let m = slotPattern.exec(eaf); m; m = slotPattern.exec(eaf)) slots.set(m[1], m[2] && Number(m[2]));
+
+  const body = eaf.match(new RegExp(`TIER_ID="${tier}">([\\s\\S]*?)</TIER>`))[1];
+  const result: [number | undefined, number | undefined, string][] = [];
+  const annotationPattern = /TIME_SLOT_REF1="(\w+)" TIME_SLOT_REF2="(\w+)">\s*<ANNOTATION_VALUE>(.*?)</g;
+  for (let m = annotationPattern.exec(body); m; m = annotationPattern.exec(body)) result.push([slots.get(m[1]), slots.get(m[2]), m[3]]);
+  return result;
+}
+
+describe("toEaf", () => {
+  it("places spoken segments at their capture times, ending by the next start", () => {
+    const spoken = [
+      segment("a", "Hi", "HI", 0, 400),
+      segment("b", "How are you", "HOW YOU", 900, 2600),
+      segment("c", "Fine", "FINE", 2500, 3100),
+    ];
+    const eaf = toEaf(spoken, { locale: "en-US" });
+    expect(annotations(eaf, "English")).toEqual([
+      [0, 400, "Hi"],
+      [900, 2500, "How are you"],
+      [2500, 3100, "Fine"],
+    ]);
+  });
+
+  it("spreads sentences typed together along the tier", () => {
+    const typed = [segment("t0", "Welcome.", "WELCOME", 1000), segment("t1", "Sit down.", "SIT", 1000)];
+    const eaf = toEaf([segment("a", "Hello", "HELLO", 0, 600), ...typed, segment("b", "Thanks", "THANK-YOU", 5000, 5800)], {
+      locale: "en-US",
+    });
+    expect(annotations(eaf, "English")).toEqual([
+      [0, 600, "Hello"],
+      [1000, 2000, "Welcome."],
+      [2000, 3000, "Sit down."],
+      [5000, 5800, "Thanks"],
+    ]);
+  });
+
+  it("subdivides each English annotation into gloss tokens", () => {
+    const eaf = toEaf([segment("a", "How are you", "HOW YOU", 0, 1200)], { locale: "en-US" });
+    // Interior token boundaries are unaligned
+    expect(annotations(eaf, "ASL Gloss")).toEqual([
+      [0, undefined, "HOW"],
+      [undefined, 1200, "YOU"],
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { decodeWav, encodeWav } from "@/app/lib/audio/wav";
+import { segmentSpans, type ExportSegment } from "@/app/lib/export";
+
+/**
+ * ELAN (.eaf, EAF 3.0) export for corpus work.
+ *
+ * Two tiers share the session timeline (ms from the first segment's start):
+ * - "English": one annotation per segment with its transcription, at its
+ *   capture times. ELAN rejects overlapping annotations on a tier, so each
+ *   ends by the next one's start and sentences typed together follow each
+ *   other;
+ * - "ASL Gloss": a Time_Subdivision child of "English" with one annotation
+ *   per gloss token. Only the segment's outer boundaries are known, so the
+ *   token boundaries inside it are left unaligned and ELAN spaces them evenly.
+ *
+ * The linked media is a WAV of the captured segments placed at their offsets
+ * on that timeline, with silence in between.
+ */
+
+const EAF_SAMPLE_RATE = 16000;
+// Typed sentences have no capture duration; each gets this much of the tier
+const UNTIMED_ANNOTATION_MS = 1000;
+
+export interface EafOptions {
+  locale: string;
+  /** File name of the WAV next to the .eaf; omit when there is no audio. */
+  mediaFileName?: string;
+  author?: string;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function toEaf(segments: ExportSegment[], { locale, mediaFileName, author = "Speak2Sign" }: EafOptions): string {
+  const origin = segments[0]?.startedAt ?? 0;
+  const slots: string[] = [];
+  const english: string[] = [];
+  const gloss: string[] = [];
+  let annotationCount = 0;
+
+  const addSlot = (time?: number) => {
+    const id = `ts${slots.length + 1}`;
+    slots.push(
+      time === undefined
+        ? `    <TIME_SLOT TIME_SLOT_ID="${id}"/>`
+        : `    <TIME_SLOT TIME_SLOT_ID="${id}" TIME_VALUE="${Math.round(time)}"/>`
+    );
+    return id;
+  };
+  const annotation = (start: string, end: string, value: string) =>
+    `    <ANNOTATION>\n` +
+    `      <ALIGNABLE_ANNOTATION ANNOTATION_ID="a${++annotationCount}" TIME_SLOT_REF1="${start}" TIME_SLOT_REF2="${end}">\n` +
+    `        <ANNOTATION_VALUE>${escapeXml(value)}</ANNOTATION_VALUE>\n` +
+    `      </ALIGNABLE_ANNOTATION>\n` +
+    `    </ANNOTATION>`;
+
+  const spans = segmentSpans(segments, origin, { minMs: 0, untimedMs: UNTIMED_ANNOTATION_MS });
+  segments.forEach((segment, i) => {
+    const { start, end } = spans[i];
+    const startSlot = addSlot(start);
+    const tokens = segment.gloss.trim().split(/\s+/).filter(Boolean);
+    // Interior token boundaries come before the end slot so TIME_ORDER stays chronological
+    const boundaries = tokens.slice(1).map(() => addSlot());
+    const endSlot = addSlot(end);
+
+    english.push(annotation(startSlot, endSlot, segment.transcription));
+    const edges = [startSlot, ...boundaries, endSlot];
+    tokens.forEach((token, k) => gloss.push(annotation(edges[k], edges[k + 1], token)));
+  });
+
+  const [language, country] = locale.split("-");
+  const media = mediaFileName
+    ? `    <MEDIA_DESCRIPTOR MEDIA_URL="file:///${escapeXml(mediaFileName)}" MIME_TYPE="audio/x-wav" RELATIVE_MEDIA_URL="./${escapeXml(mediaFileName)}"/>\n`
+    : "";
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<ANNOTATION_DOCUMENT AUTHOR="${escapeXml(author)}" DATE="${new Date().toISOString()}" FORMAT="3.0" VERSION="3.0" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation="http://www.mpi.nl/tools/elan/EAFv3.0.xsd">`,
+    `  <HEADER MEDIA_FILE="" TIME_UNITS="milliseconds">`,
+    `${media}    <PROPERTY NAME="lastUsedAnnotationId">${annotationCount}</PROPERTY>`,
+    `  </HEADER>`,
+    `  <TIME_ORDER>`,
+    ...slots,
+    `  </TIME_ORDER>`,
+    `  <TIER LINGUISTIC_TYPE_REF="transcription" TIER_ID="English">`,
+    ...english,
+    `  </TIER>`,
+    `  <TIER LINGUISTIC_TYPE_REF="gloss" PARENT_REF="English" TIER_ID="ASL Gloss">`,
+    ...gloss,
+    `  </TIER>`,
+    `  <LINGUISTIC_TYPE GRAPHIC_REFERENCES="false" LINGUISTIC_TYPE_ID="transcription" TIME_ALIGNABLE="true"/>`,
+    `  <LINGUISTIC_TYPE CONSTRAINTS="Time_Subdivision" GRAPHIC_REFERENCES="false" LINGUISTIC_TYPE_ID="gloss" TIME_ALIGNABLE="true"/>`,
+    `  <LOCALE LANGUAGE_CODE="${escapeXml(language || "en")}"${country ? ` COUNTRY_CODE="${escapeXml(country)}"` : ""}/>`,
+    `  <CONSTRAINT DESCRIPTION="Time subdivision of parent annotation's time interval, no time gaps allowed within this interval" STEREOTYPE="Time_Subdivision"/>`,
+    `</ANNOTATION_DOCUMENT>`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * One WAV covering the session timeline, each segment's audio at its start
+ * offset. Segments without audio (typed text) stay silent. Returns null when
+ * no segment has audio.
+ */
+export async function assembleSessionWav(
+  segments: ExportSegment[],
+  loadAudio: (segmentId: string) => Promise<Blob | undefined>
+): Promise<Blob | null> {
+  const origin = segments[0]?.startedAt ?? 0;
+  const parts: { offset: number; pcm16: Int16Array }[] = [];
+
+  for (const segment of segments) {
+    const blob = await loadAudio(segment.id);
+    if (!blob) continue;
+    const { pcm16, sampleRate } = decodeWav(await blob.arrayBuffer());
+    // Segment audio is always encoded at the transcription rate
+    if (sampleRate !== EAF_SAMPLE_RATE) throw new Error(`Unexpected ${sampleRate} Hz segment audio`);
+    const offset = Math.max(0, Math.round(((segment.startedAt - origin) / 1000) * EAF_SAMPLE_RATE));
+    parts.push({ offset, pcm16 });
+  }
+  if (parts.length === 0) return null;
+
+  const length = Math.max(...parts.map((p) => p.offset + p.pcm16.length));
+  const timeline = new Int16Array(length);
+  for (const { offset, pcm16 } of parts) timeline.set(pcm16, offset);
+  return encodeWav(timeline, EAF_SAMPLE_RATE);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { segmentSpans, toSrt, toWebVTT, type ExportSegment } from "@/app/lib/export";
+
+const T0 = Date.UTC(2026, 9, 19, 9, 30);
+
+const segment = (id: string, transcription: string, start: number, end = start): ExportSegment => ({
+  id,
+  transcription,
+  gloss: "",
+  sigml: "",
+  startedAt: T0 + start,
+  endedAt: T0 + end,
+});
+
+const expectSequential = (spans: { start: number; end: number }[]) =>
+  spans.slice(1).forEach((span, i) => expect(span.start).toBeGreaterThanOrEqual(spans[i].end));
+
+describe("segmentSpans", () => {
+  it("keeps capture times and stretches short segments to the readable minimum", () => {
+    const spans = segmentSpans([segment("a", "Hello", 0, 2400), segment("b", "Yes", 5000, 5300)], T0);
+    expect(spans).toEqual([
+      { start: 0, end: 2400 },
+      { start: 5000, end: 6500 },
+    ]);
+  });
+
+  it("clamps each end to the next segment's start", () => {
+    // A 400 ms utterance followed 600 ms later by the next one
+    const spans = segmentSpans([segment("a", "Hi", 0, 400), segment("b", "How are you", 1000, 2600)], T0);
+    expect(spans[0]).toEqual({ start: 0, end: 1000 });
+    expectSequential(spans);
+  });
+
+  it("gives sentences typed together sequential windows", () => {
+    const typed = ["One.", "Two.", "Three."].map((text, i) => segment(`t${i}`, text, 1000));
+    const spans = segmentSpans(typed, T0);
+    expect(spans).toEqual([
+      { start: 1000, end: 2500 },
+      { start: 2500, end: 4000 },
+      { start: 4000, end: 5500 },
+    ]);
+  });
+
+  it("squeezes typed sentences into the room before the next segment", () => {
+    const typed = ["One.", "Two."].map((text, i) => segment(`t${i}`, text, 0));
+    const spans = segmentSpans([...typed, segment("c", "Spoken", 2000, 3500)], T0);
+    expect(spans).toEqual([
+      { start: 0, end: 1000 },
+      { start: 1000, end: 2000 },
+      { start: 2000, end: 3500 },
+    ]);
+  });
+});
+
+describe("caption export", () => {
+  const segments = [
+    segment("a", "Good morning.", 0, 800),
+    segment("b", "", 900, 1200),
+    segment("t0", "Welcome.", 1000),
+    segment("t1", "Please sit down.", 1000),
+  ];
+
+  it("writes non-overlapping SRT cues and skips segments without text", () => {
+    expect(toSrt(segments)).toBe(
+      [
+        "1\n00:00:00,000 --> 00:00:01,000\nGood morning.\n",
+        "2\n00:00:01,000 --> 00:00:02,500\nWelcome.\n",
+        "3\n00:00:02,500 --> 00:00:04,000\nPlease sit down.\n",
+      ].join("\n")
+    );
+  });
+
+  it("uses the same cue times for WebVTT", () => {
+    expect(toWebVTT(segments)).toContain("00:00:01.000 --> 00:00:02.500\nWelcome.\n\n00:00:02.500 --> 00:00:04.000\nPlease sit down.");
+  });
+});
@@ -0,0 +1,279 @@
+import { z } from "zod";
+import { format } from "date-fns";
+import type { RestoredSegment, SegmentEdit } from "@/app/lib/pipeline";
+import { isGlossCorrected } from "@/app/lib/gloss";
+
+/**
+ * Session exports: SRT/WebVTT captions, a JSON bundle and a plain-text
+ * report. Caption times are offsets from the first segment's start, so they
+ * line up with a recording of the same session started at that moment.
+ *
+ * The JSON bundle is also the import format, so content can be prepared in
+ * advance and presented without live speech.
+ */
+
+export type ExportSegment = RestoredSegment;
+
+export const SESSION_BUNDLE_FORMAT = "speak2sign-session";
+
+// ---- Bundle contract ----
+
+// Hand-written bundles may leave out ids and timings; `parseSessionBundle` fills them in
+const bundleSegmentSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    transcription: z.string().default(""),
+    gloss: z.string().default(""),
+    sigml: z.string().default(""),
+    /** ms since epoch. */
+    startedAt: z.number().finite().optional(),
+    endedAt: z.number().finite().optional(),
+    machineGloss: z.string().optional(),
+    edits: z
+      .array(
+        z.object({
+          field: z.enum(["transcription", "gloss"]),
+          previous: z.string(),
+          value: z.string(),
+          editedAt: z.number().finite(),
+        })
+      )
+      .optional(),
+  })
+  .refine((s) => s.transcription.trim() || s.gloss.trim() || s.sigml.trim(), {
+    message: "needs a transcription, gloss or SiGML",
+  });
+
+export const sessionBundleSchema = z.object({
+  format: z.literal(SESSION_BUNDLE_FORMAT),
+  version: z.literal(1),
+  title: z.string().optional(),
+  locale: z.string().default("en-US"),
+  /** ms since epoch. */
+  startedAt: z.number().finite().optional(),
+  exportedAt: z.number().finite().optional(),
+  segments: z.array(bundleSegmentSchema).min(1, "bundle has no segments"),
+});
+
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: 1;
+  title?: string;
+  locale: string;
+  /** ms since epoch. */
+  startedAt: number;
+  exportedAt: number;
+  segments: ExportSegment[];
+}
+
+// Typed sentences have no duration; keep their captions on screen long enough to read
+const MIN_CAPTION_MS = 1500;
+
+const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+
+/** `HH:MM:SS<separator>mmm`, the timestamp shape shared by SRT (",") and WebVTT ("."). */
+function formatTimestamp(ms: number, separator: "," | ".") {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+export interface SegmentSpanOptions {
+  /** Shortest interval for a segment with a duration. Defaults to the caption minimum. */
+  minMs?: number;
+  /** Interval for a segment without one (typed text). Defaults to `minMs`. */
+  untimedMs?: number;
+}
+
+/**
+ * Non-overlapping intervals in ms from `origin`, one per segment, for
+ * timelines that cannot stack entries (caption cues, ELAN annotations).
+ *
+ * Segments keep their capture times, stretched to `minMs` but never past the
+ * next segment's start. Consecutive segments sharing a start time (sentences
+ * typed in one go) split that room into sequential windows.
+ */
+export function segmentSpans(
+  segments: ExportSegment[],
+  origin: number,
+  { minMs = MIN_CAPTION_MS, untimedMs = minMs }: SegmentSpanOptions = {}
+) {
+  const spans: { start: number; end: number }[] = [];
+  for (let i = 0; i < segments.length; ) {
+    const startedAt = segments[i].startedAt;
+    let next = i;
+    let endedAt = startedAt;
+    while (next < segments.length && segments[next].startedAt === startedAt) endedAt = Math.max(endedAt, segments[next++].endedAt);
+
+    const count = next - i;
+    const start = Math.max(0, startedAt - origin);
+    const wanted = endedAt > startedAt ? Math.max(endedAt - startedAt, count * minMs) : count * untimedMs;
+    const room = next < segments.length ? Math.max(0, segments[next].startedAt - startedAt) : Infinity;
+    const width = Math.min(wanted, room) / count;
+    for (let k = 0; k < count; k++) spans.push({ start: start + k * width, end: start + (k + 1) * width });
+    i = next;
+  }
+  return spans;
+}
+
+function captionCues(segments: ExportSegment[]) {
+  const origin = segments[0]?.startedAt ?? 0;
+  const captioned = segments.filter((s) => s.transcription.trim());
+  const spans = segmentSpans(captioned, origin);
+  return captioned.map((s, i) => ({ ...spans[i], text: s.transcription.trim() }));
+}
+
+export function toSrt(segments: ExportSegment[]): string {
+  return captionCues(segments)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`)
+    .join("\n");
+}
+
+export function toWebVTT(segments: ExportSegment[]): string {
+  const cues = captionCues(segments).map(
+    (cue) => `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text}\n`
+  );
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+export function toSessionBundle(segments: ExportSegment[], { locale, title }: { locale: string; title?: string }): SessionBundle {
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version: 1,
+    title,
+    locale,
+    startedAt: segments[0]?.startedAt ?? Date.now(),
+    exportedAt: Date.now(),
+    segments: segments.map(({ id, transcription, gloss, sigml, startedAt, endedAt, machineGloss, edits }) => ({
+      id,
+      transcription,
+      gloss,
+      sigml,
+      startedAt,
+      endedAt,
+      machineGloss,
+      edits,
+    })),
+  };
+}
+
+export function toTextReport(segments: ExportSegment[], { locale, title }: { locale: string; title?: string }): string {
+  const origin = segments[0]?.startedAt ?? Date.now();
+  const heading = title || `Speak2Sign session, ${format(origin, "d MMM yyyy, HH:mm")}`;
+  const lines = [heading, "=".repeat(heading.length), `Language: ${locale}`, `Segments: ${segments.length}`, ""];
+  segments.forEach((s, i) => {
+    lines.push(`${i + 1}. [${formatTimestamp(s.startedAt - origin, ".").slice(0, 8)}] ${s.transcription}`);
+    lines.push(`   Gloss: ${s.gloss || "(none)"}`);
+    lines.push("");
+  });
+  return lines.join("\n");
+}
+
+/**
+ * Gloss corrections as training data: JSON Lines with one
+ * `{"text", "machine_gloss", "gloss"}` object per segment whose gloss an
+ * interpreter changed.
+ */
+export function toGlossCorrections(segments: ExportSegment[]): string {
+  return segments
+    .filter(isGlossCorrected)
+    .map((s) => JSON.stringify({ text: s.transcription, machine_gloss: s.machineGloss, gloss: s.gloss }) + "\n")
+    .join("");
+}
+
+/** File name stem for a session's exports, e.g. "speak2sign-2026-10-19-0930". */
+export const exportFileStem = (segments: ExportSegment[]) =>
+  `speak2sign-${format(segments[0]?.startedAt ?? Date.now(), "yyyy-MM-dd-HHmm")}`;
+
+/** Saves `data` through a temporary link (browser only). */
+export function downloadFile(data: Blob | string, fileName: string, type = "text/plain;charset=utf-8") {
+  const blob = typeof data === "string" ? new Blob([data], { type }) : data;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export class SessionBundleError extends Error {
+  constructor(
+    message: string,
+    readonly issues: z.ZodIssue[] = []
+  ) {
+    super(message);
+    this.name = "SessionBundleError";
+  }
+}
+
+export interface ParsedSessionBundle {
+  bundle: SessionBundle;
+  /** Positions (0-based) of segments that have no SiGML and cannot be signed. */
+  missingSigml: number[];
+}
+
+/**
+ * Validates a JSON bundle and normalizes it: every segment gets a unique id
+ * and start/end times (spaced one second apart when the bundle has none).
+ * Throws `SessionBundleError`.
+ */
+export function parseSessionBundle(text: string): ParsedSessionBundle {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new SessionBundleError("Not a JSON file");
+  }
+
+  const parsed = sessionBundleSchema.safeParse(json);
+  if (!parsed.success) {
+    const detail = parsed.error.issues
+      .slice(0, 3)
+      .map((i) => `${i.path.join(".") || "bundle"}: ${i.message}`)
+      .join("; ");
+    throw new SessionBundleError(`Invalid session bundle (${detail})`, parsed.error.issues);
+  }
+
+  const { title, locale, segments } = parsed.data;
+  const startedAt = parsed.data.startedAt ?? segments.find((s) => s.startedAt !== undefined)?.startedAt ?? Date.now();
+  const importId = Date.now().toString(36);
+  const seen = new Set<string>();
+
+  let cursor = startedAt;
+  const normalized = segments.map((s, i): ExportSegment => {
+    const id = s.id && !seen.has(s.id) ? s.id : `import-${importId}-${i.toString(36)}`;
+    seen.add(id);
+    const segmentStart = s.startedAt ?? cursor;
+    const segmentEnd = Math.max(s.endedAt ?? segmentStart + 1000, segmentStart);
+    cursor = segmentEnd;
+    return {
+      id,
+      transcription: s.transcription,
+      gloss: s.gloss,
+      sigml: s.sigml,
+      startedAt: segmentStart,
+      endedAt: segmentEnd,
+      machineGloss: s.machineGloss,
+      // zod infers optional keys when strictNullChecks is off; the schema requires them
+      edits: s.edits as SegmentEdit[] | undefined,
+    };
+  });
+
+  return {
+    bundle: {
+      format: SESSION_BUNDLE_FORMAT,
+      version: 1,
+      title,
+      locale,
+      startedAt,
+      exportedAt: parsed.data.exportedAt ?? startedAt,
+      segments: normalized,
+    },
+    missingSigml: normalized.flatMap((s, i) => (s.sigml.trim() ? [] : [i])),
+  };
+}
@@ -0,0 +1,45 @@
+/** ASL gloss helpers: tokens and machine vs human comparisons. */
+
+export const glossTokens = (gloss: string) => gloss.trim().split(/\s+/).filter(Boolean);
+
+export interface GlossDiffPart {
+  token: string;
+  kind: "same" | "added" | "removed";
+}
+
+/**
+ * Token-level diff (longest common subsequence) from `before` to `after`.
+ * Removed tokens come before added ones at each change, as in a unified diff.
+ */
+export function diffGloss(before: string, after: string): GlossDiffPart[] {
+  const a = glossTokens(before);
+  const b = glossTokens(after);
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: GlossDiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      parts.push({ token: a[i], kind: "same" });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      parts.push({ token: a[i++], kind: "removed" });
+    } else {
+      parts.push({ token: b[j++], kind: "added" });
+    }
+  }
+  return parts;
+}
+
+/** True when an interpreter changed the backend's gloss. */
+export const isGlossCorrected = (segment: { gloss: string; machineGloss?: string }) =>
+  !!segment.machineGloss && glossTokens(segment.machineGloss).join(" ") !== glossTokens(segment.gloss).join(" ");
@@ -0,0 +1,152 @@
+import { format } from "date-fns";
+import type { RestoredSegment } from "@/app/lib/pipeline";
+
+/**
+ * Session history kept in IndexedDB, so a class can be reviewed (and replayed
+ * on the avatar) after the page has been cleared or closed.
+ *
+ * Sessions hold only text (transcription, gloss, SiGML and timestamps). Audio
+ * is optional and lives in a separate store keyed by [sessionId, segmentId],
+ * so listing and searching sessions never touches the blobs.
+ */
+
+export interface SessionSegment extends RestoredSegment {
+  hasAudio?: boolean;
+}
+
+export interface SessionRecord {
+  id: string;
+  title: string;
+  /** BCP‑47 locale used for transcription. */
+  locale: string;
+  startedAt: number;
+  updatedAt: number;
+  segments: SessionSegment[];
+}
+
+const DB_NAME = "speak2sign";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const AUDIO = "segment-audio";
+
+const AUDIO_PREFERENCE_KEY = "speak2sign.history-audio";
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("History transaction aborted"));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openHistoryDB(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("Session history is not available in this browser"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        db.createObjectStore(SESSIONS, { keyPath: "id" }).createIndex("startedAt", "startedAt");
+      }
+      if (!db.objectStoreNames.contains(AUDIO)) db.createObjectStore(AUDIO);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).catch((e) => {
+    // Allow a retry (e.g. after the user unblocks storage)
+    dbPromise = null;
+    throw e;
+  });
+  return dbPromise;
+}
+
+// Every audio key of a session: [id] < [id, segmentId] < [id, []]
+const sessionAudioRange = (sessionId: string) => IDBKeyRange.bound([sessionId], [sessionId, []]);
+
+export const defaultSessionTitle = (startedAt: number) => `Session ${format(startedAt, "d MMM yyyy, HH:mm")}`;
+
+/** Creates or replaces a session; `audio` maps segment ids to WAV blobs to store alongside it. */
+export async function saveSession(session: SessionRecord, audio: Record<string, Blob> = {}) {
+  const db = await openHistoryDB();
+  const tx = db.transaction([SESSIONS, AUDIO], "readwrite");
+  tx.objectStore(SESSIONS).put(session);
+  for (const [segmentId, blob] of Object.entries(audio)) tx.objectStore(AUDIO).put(blob, [session.id, segmentId]);
+  await transactionDone(tx);
+}
+
+export async function getSession(id: string): Promise<SessionRecord | undefined> {
+  const db = await openHistoryDB();
+  return request<SessionRecord | undefined>(db.transaction(SESSIONS).objectStore(SESSIONS).get(id));
+}
+
+export async function getSegmentAudio(sessionId: string, segmentId: string): Promise<Blob | undefined> {
+  const db = await openHistoryDB();
+  return request<Blob | undefined>(db.transaction(AUDIO).objectStore(AUDIO).get([sessionId, segmentId]));
+}
+
+/**
+ * Sessions newest first. `query` matches the title, transcriptions and gloss
+ * (case-insensitive).
+ */
+export async function listSessions(query = ""): Promise<SessionRecord[]> {
+  const db = await openHistoryDB();
+  const all = await request<SessionRecord[]>(db.transaction(SESSIONS).objectStore(SESSIONS).index("startedAt").getAll());
+  const needle = query.trim().toLowerCase();
+  const matches = needle
+    ? all.filter(
+        (session) =>
+          session.title.toLowerCase().includes(needle) ||
+          session.segments.some(
+            (s) => s.transcription.toLowerCase().includes(needle) || s.gloss.toLowerCase().includes(needle)
+          )
+      )
+    : all;
+  return matches.reverse();
+}
+
+export async function renameSession(id: string, title: string) {
+  const db = await openHistoryDB();
+  const tx = db.transaction(SESSIONS, "readwrite");
+  const store = tx.objectStore(SESSIONS);
+  const session = await request<SessionRecord | undefined>(store.get(id));
+  if (!session) throw new Error("Session not found");
+  store.put({ ...session, title: title.trim() || defaultSessionTitle(session.startedAt), updatedAt: Date.now() });
+  await transactionDone(tx);
+}
+
+/** Removes a session and its audio. */
+export async function deleteSession(id: string) {
+  const db = await openHistoryDB();
+  const tx = db.transaction([SESSIONS, AUDIO], "readwrite");
+  tx.objectStore(SESSIONS).delete(id);
+  tx.objectStore(AUDIO).delete(sessionAudioRange(id));
+  await transactionDone(tx);
+}
+
+/** Whether segment audio is kept with the history (off by default: ~2 MB per spoken minute). */
+export function loadAudioPreference(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return window.localStorage.getItem(AUDIO_PREFERENCE_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function saveAudioPreference(enabled: boolean) {
+  try {
+    window.localStorage.setItem(AUDIO_PREFERENCE_KEY, enabled ? "1" : "0");
+  } catch {
+    // Storage full or disabled; the preference just won't persist
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Offline stand-in for the Speak2Sign backend, served by the route handlers
+ * under app/api/mock. Enabled with NEXT_PUBLIC_MOCK_BACKEND=1, which also
+ * points the client (and the default transcription provider) at /api/mock.
+ *
+ * Everything is deterministic so demos and manual tests are repeatable:
+ * - gloss comes from a few English → ASL gloss rules;
+ * - SiGML is assembled from the small HamNoSys dictionary below, with a
+ *   generic placeholder sign for words it does not know;
+ * - transcription returns canned sentences chosen by the audio's size.
+ */
+
+export const MOCK_BACKEND_BASE_URL = "/api/mock";
+
+export const isMockBackendEnabled = () => {
+  const flag = process.env.NEXT_PUBLIC_MOCK_BACKEND;
+  return flag === "1" || flag === "true";
+};
+
+// ---- Text → gloss ----
+
+// Function words ASL gloss leaves out
+const DROPPED_WORDS = new Set([
+  "a", "an", "the", "is", "am", "are", "was", "were", "be", "been", "being", "to", "of", "do", "does", "did",
+]);
+
+const WORD_GLOSSES: Record<string, string> = {
+  i: "ME",
+  me: "ME",
+  my: "MY",
+  mine: "MY",
+  we: "WE",
+  us: "WE",
+  our: "OUR",
+  he: "HE",
+  him: "HE",
+  she: "SHE",
+  her: "SHE",
+  they: "THEY",
+  them: "THEY",
+  hi: "HELLO",
+  thanks: "THANK-YOU",
+};
+
+// Multi-word expressions signed as one sign
+const PHRASES: [RegExp, string][] = [
+  [/\bthank you\b/g, "thank-you"],
+  [/\bsign language\b/g, "sign"],
+  [/\bhow are you\b/g, "how you"],
+];
+
+const WH_WORDS = new Set(["WHAT", "WHERE", "WHO", "WHEN", "WHY", "HOW", "WHICH"]);
+
+/** Deterministic gloss for one English sentence, e.g. "What is your name?" → "YOUR NAME WHAT". */
+export function mockTextToGloss(text: string): string {
+  let normalized = text.toLowerCase().replace(/n't\b/g, " not").replace(/'(m|re|s|ll|ve|d)\b/g, "");
+  for (const [pattern, replacement] of PHRASES) normalized = normalized.replace(pattern, replacement);
+
+  const isQuestion = /\?\s*$/.test(text);
+  const tokens = (normalized.match(/[a-z0-9-]+/g) || [])
+    .filter((word) => !DROPPED_WORDS.has(word))
+    .map((word) => WORD_GLOSSES[word] || word.toUpperCase());
+
+  // ASL puts the wh-word at the end of a wh-question
+  if (isQuestion && tokens.length > 1 && WH_WORDS.has(tokens[0])) tokens.push(tokens.shift()!);
+  return tokens.join(" ");
+}
+
+// ---- Gloss → SiGML ----
+
+/** HamNoSys manual part of each known sign (tag names without the angle brackets). */
+export const MOCK_SIGN_DICTIONARY: Record<string, string[]> = {
+  HELLO: ["hamflathand", "hamextfingeru", "hampalml", "hamforehead", "hamlrat", "hamclose", "hammover"],
+  "THANK-YOU": ["hamflathand", "hamextfingeru", "hampalmu", "hamchin", "hamtouch", "hammoveo"],
+  YES: ["hamfist", "hamextfingeru", "hampalmd", "hamshoulders", "hamnodding", "hamrepeatfromstart"],
+  NO: ["hampinch12", "hamextfingeru", "hampalmd", "hamshoulders", "hamclose", "hamrepeatfromstart"],
+  ME: ["hamfinger2", "hamextfingeri", "hampalml", "hamchest", "hamtouch"],
+  YOU: ["hamfinger2", "hamextfingero", "hampalmd", "hamshoulders", "hammoveo", "hamsmallmod"],
+  MY: ["hamflathand", "hamextfingerl", "hampalmr", "hamchest", "hamtouch"],
+  YOUR: ["hamflathand", "hamextfingeru", "hampalmd", "hamshoulders", "hammoveo", "hamsmallmod"],
+  NAME: ["hamfinger23", "hamextfingero", "hampalml", "hamshoulders", "hammoved", "hamrepeatfromstart"],
+  WHAT: ["hamflathand", "hamextfingero", "hampalmu", "hamshoulders", "hammovel", "hammover"],
+  WHERE: ["hamfinger2", "hamextfingeru", "hampalmd", "hamshoulders", "hammovel", "hamrepeatfromstart"],
+  HOW: ["hamfist", "hamextfingero", "hampalmd", "hamchest", "hammoveu"],
+  GOOD: ["hamflathand", "hamextfingeru", "hampalmu", "hamchin", "hamtouch", "hammoved"],
+  PLEASE: ["hamflathand", "hamextfingeru", "hampalmu", "hamchest", "hamtouch", "hamcircleo"],
+  SORRY: ["hamfist", "hamextfingeru", "hampalmu", "hamchest", "hamtouch", "hamcircleo"],
+  HELP: ["hamfist", "hamthumbout", "hamextfingeru", "hampalml", "hamchest", "hammoveu"],
+  NOT: ["hamfist", "hamthumbout", "hamextfingeru", "hampalml", "hamchin", "hamtouch", "hammoveo"],
+  UNDERSTAND: ["hamfist", "hamextfingeru", "hampalml", "hamforehead", "hamlrat", "hamclose", "hammoveu"],
+  LEARN: ["hamflathand", "hamextfingeru", "hampalmd", "hamforehead", "hamclose", "hammoveu"],
+  SIGN: ["hamfinger2", "hamextfingero", "hampalmd", "hamchest", "hamcircleo", "hamrepeatfromstart"],
+};
+
+// Stand-in for words missing from the dictionary: a short neutral-space movement
+const PLACEHOLDER_SIGN = ["hamflathand", "hamextfingero", "hampalmd", "hamchest", "hammoveo", "hamsmallmod"];
+
+const escapeXml = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+const hnsSign = (gloss: string, manual: string[]) =>
+  `  <hns_sign gloss="${escapeXml(gloss)}">\n` +
+  `    <hamnosys_nonmanual></hamnosys_nonmanual>\n` +
+  `    <hamnosys_manual>\n${manual.map((tag) => `      <${tag}/>`).join("\n")}\n    </hamnosys_manual>\n` +
+  `  </hns_sign>`;
+
+/** One `hns_sign` per gloss token, in order. */
+export function mockGlossToSigml(gloss: string): string {
+  const tokens = gloss.trim().split(/\s+/).filter(Boolean);
+  const signs = tokens.map((token) => hnsSign(token, MOCK_SIGN_DICTIONARY[token.toUpperCase()] || PLACEHOLDER_SIGN));
+  return `<?xml version="1.0" encoding="utf-8"?>\n<sigml>\n${signs.join("\n")}\n</sigml>`;
+}
+
+// ---- Transcription ----
+
+const CANNED_TRANSCRIPTIONS = [
+  "Hello, my name is Sam.",
+  "Thank you for coming today.",
+  "Where is the library?",
+  "I do not understand.",
+  "Please help me learn sign language.",
+  "How are you?",
+];
+
+/** Canned text for an uploaded segment; the same audio always gets the same sentence. */
+export const mockTranscription = (audio: Blob) => CANNED_TRANSCRIPTIONS[audio.size % CANNED_TRANSCRIPTIONS.length];
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  initialPipelineState,
+  pipelineReducer,
+  selectCommittedSentences,
+  selectPendingSegments,
+  type PipelineAction,
+  type PipelineState,
+  type RestoredSegment,
+} from "@/app/lib/pipeline";
+
+const run = (actions: PipelineAction[], state: PipelineState = initialPipelineState) => actions.reduce(pipelineReducer, state);
+
+/** Capture, transcribe, gloss and translate one segment. */
+const translated = (id: string): PipelineAction[] => [
+  { type: "transcribed", id, transcription: `Sentence ${id}` },
+  { type: "glossed", id, gloss: id.toUpperCase() },
+  { type: "sigml-ready", id, sigml: `<sigml id="${id}"/>` },
+];
+
+const captured = (...ids: string[]): PipelineAction[] =>
+  ids.map((id, i) => ({ type: "captured", id, startedAt: i * 1000, endedAt: i * 1000 + 500 }));
+
+const ids = (segments: { id: string }[]) => segments.map((s) => s.id);
+
+const restored = (id: string, sigml = "<sigml/>"): RestoredSegment => ({
+  id,
+  transcription: `Sentence ${id}`,
+  gloss: id.toUpperCase(),
+  sigml,
+  startedAt: 0,
+  endedAt: 0,
+});
+
+describe("capture-order commit", () => {
+  it("holds back a later segment that finishes first", () => {
+    const state = run([...captured("a", "b"), ...translated("b")]);
+
+    expect(state.segments.b.status).toBe("sigml-ready");
+    expect(ids(selectCommittedSentences(state))).toEqual([]);
+    expect(ids(selectPendingSegments(state))).toEqual(["a", "b"]);
+  });
+
+  it("releases both in capture order once the earlier one catches up", () => {
+    const state = run([...captured("a", "b"), ...translated("b"), ...translated("a")]);
+
+    expect(ids(selectCommittedSentences(state))).toEqual(["a", "b"]);
+    expect(ids(selectPendingSegments(state))).toEqual([]);
+  });
+
+  it("skips a failed earlier segment instead of blocking the ones after it", () => {
+    const state = run([
+      ...captured("a", "b", "c"),
+      ...translated("c"),
+      { type: "failed", id: "a", error: "timeout" },
+      ...translated("b"),
+    ]);
+
+    expect(ids(selectCommittedSentences(state))).toEqual(["b", "c"]);
+    expect(ids(selectPendingSegments(state))).toEqual([]);
+  });
+
+  it("stops at the first segment still in flight", () => {
+    const state = run([...captured("a", "b", "c"), ...translated("a"), ...translated("c")]);
+
+    expect(ids(selectCommittedSentences(state))).toEqual(["a"]);
+    expect(ids(selectPendingSegments(state))).toEqual(["b", "c"]);
+  });
+});
+
+describe("pipelineReducer", () => {
+  it("ignores a late event that would move a segment backwards", () => {
+    const failed = run([
+      ...captured("a"),
+      { type: "transcribed", id: "a", transcription: "Hello" },
+      { type: "failed", id: "a", error: "gloss service down" },
+    ]);
+    const state = pipelineReducer(failed, { type: "glossed", id: "a", gloss: "HELLO" });
+
+    expect(state).toBe(failed);
+    expect(state.segments.a).toMatchObject({ status: "failed", gloss: "" });
+  });
+
+  it("ignores a stale transcription after the segment was translated", () => {
+    const ready = run([...captured("a"), ...translated("a")]);
+    expect(pipelineReducer(ready, { type: "transcribed", id: "a", transcription: "Other" })).toBe(ready);
+  });
+
+  it("ignores events for segments it does not know", () => {
+    const state = run(captured("a"));
+    expect(pipelineReducer(state, { type: "sigml-ready", id: "gone", sigml: "<sigml/>" })).toBe(state);
+  });
+
+  it("replaces the segments in one step on restore and starts a new session", () => {
+    const live = pipelineReducer(initialPipelineState, { type: "captured", id: "live", startedAt: 0, endedAt: 500 });
+    const state = pipelineReducer(live, { type: "restore", segments: [restored("a"), restored("b", "")] });
+
+    expect(state.session).toBe(live.session + 1);
+    expect(state.order).toEqual(["a", "b"]);
+    expect(state.segments.live).toBeUndefined();
+    expect(state.segments.b).toMatchObject({ status: "no-sigml" });
+    expect(selectCommittedSentences(state).map((s) => s.id)).toEqual(["a"]);
+  });
+
+  it("starts a new session on clear and keeps it while segments come and go", () => {
+    const cleared = pipelineReducer(initialPipelineState, { type: "clear" });
+    expect(cleared.session).toBe(1);
+
+    const captured = pipelineReducer(cleared, { type: "captured", id: "s1", startedAt: 0, endedAt: 500 });
+    const discarded = pipelineReducer(captured, { type: "discarded", id: "s1" });
+    expect([captured.session, discarded.session]).toEqual([1, 1]);
+  });
+});
+
+describe("restored segments without SiGML", () => {
+  const restoredGap = () =>
+    pipelineReducer(initialPipelineState, { type: "restore", segments: [restored("a"), restored("b", ""), restored("c")] });
+
+  it("are skipped by the avatar without blocking later segments or counting as pending", () => {
+    const state = restoredGap();
+
+    expect(ids(selectCommittedSentences(state))).toEqual(["a", "c"]);
+    expect(ids(selectPendingSegments(state))).toEqual([]);
+  });
+
+  it("join the avatar queue once a correction produces SiGML", () => {
+    const edited = pipelineReducer(restoredGap(), { type: "edit-gloss", id: "b", gloss: "B FIXED", editedAt: 1 });
+    expect(edited.segments.b).toMatchObject({ status: "no-sigml", gloss: "B FIXED", revising: true });
+
+    const state = pipelineReducer(edited, { type: "revised", id: "b", sigml: "<sigml id=\"b\"/>" });
+    expect(state.segments.b).toMatchObject({ status: "sigml-ready", revising: false });
+    expect(ids(selectCommittedSentences(state))).toEqual(["a", "b", "c"]);
+  });
+
+  it("stay skipped when the correction still yields no SiGML", () => {
+    const edited = pipelineReducer(restoredGap(), { type: "edit-transcription", id: "b", transcription: "Bee", editedAt: 1 });
+    const state = pipelineReducer(edited, { type: "revised", id: "b", sigml: "" });
+
+    expect(state.segments.b.status).toBe("no-sigml");
+    expect(ids(selectCommittedSentences(state))).toEqual(["a", "c"]);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Per-segment translation pipeline state.
+ *
+ * Every captured utterance gets an id when the recorder finalizes it and then
+ * moves through captured → transcribed → glossed → sigml-ready → played, or
+ * ends in failed. Network calls for different segments may finish in any
+ * order; `selectCommittedSentences` only releases segments in capture order.
+ * Restored segments without SiGML wait in no-sigml until a correction
+ * produces some.
+ */
+
+export type SegmentStatus = "captured" | "transcribed" | "glossed" | "no-sigml" | "sigml-ready" | "played" | "failed";
+
+export interface SentenceSegment {
+  id: string;
+  transcription: string;
+  gloss: string;
+  sigml: string;
+}
+
+/** One manual correction of a segment; the first edit's `previous` is the machine output. */
+export interface SegmentEdit {
+  field: "transcription" | "gloss";
+  previous: string;
+  value: string;
+  editedAt: number;
+}
+
+export interface PipelineSegment extends SentenceSegment {
+  status: SegmentStatus;
+  /** Wall-clock time (ms since epoch) of the first and last captured sample. */
+  startedAt: number;
+  endedAt: number;
+  error?: string;
+  /** 16 kHz WAV that was sent for transcription (spoken and uploaded segments only). */
+  audio?: Blob;
+  /** Gloss as the backend produced it for the current transcription; differs from `gloss` once corrected. */
+  machineGloss?: string;
+  /** Corrections in the order they were made. */
+  edits?: SegmentEdit[];
+  /** An edit is being re-translated; gloss and SiGML still hold the previous result. */
+  revising?: boolean;
+  revisionError?: string;
+}
+
+/** A finished segment brought back from history or an import. */
+export type RestoredSegment = Pick<
+  PipelineSegment,
+  "id" | "transcription" | "gloss" | "sigml" | "startedAt" | "endedAt" | "machineGloss" | "edits"
+>;
+
+export interface PipelineState {
+  /** Segment ids in capture order. */
+  order: string[];
+  segments: Record<string, PipelineSegment>;
+  /**
+   * Bumped whenever the segments are replaced wholesale (`clear`, `restore`),
+   * so views holding per-session state such as the avatar's queue start over.
+   */
+  session: number;
+}
+
+export type SegmentEvent =
+  | { type: "captured"; id: string; startedAt: number; endedAt: number }
+  /** Encoded audio of the segment; does not change its status. */
+  | { type: "audio"; id: string; audio: Blob }
+  | { type: "transcribed"; id: string; transcription: string }
+  | { type: "glossed"; id: string; gloss: string }
+  | { type: "sigml-ready"; id: string; sigml: string }
+  | { type: "played"; id: string }
+  | { type: "failed"; id: string; error: string }
+  /** Segment turned out to hold no speech (e.g. empty transcription); forget it. */
+  | { type: "discarded"; id: string };
+
+export type PipelineAction =
+  | SegmentEvent
+  | { type: "clear" }
+  /**
+   * Correct a finished segment's transcription. The segment keeps its place
+   * and status; `revised` or `revision-failed` follows once it is re-translated.
+   */
+  | { type: "edit-transcription"; id: string; transcription: string; editedAt: number }
+  /** Correct a finished segment's gloss directly; only SiGML is regenerated. */
+  | { type: "edit-gloss"; id: string; gloss: string; editedAt: number }
+  /** New SiGML for an edit, with the backend's gloss when the transcription was re-glossed. */
+  | { type: "revised"; id: string; sigml: string; gloss?: string }
+  | { type: "revision-failed"; id: string; error: string }
+  /**
+   * Replace everything with finished segments, ready to play again, as a new
+   * session. Segments without SiGML stay visible as no-sigml; the avatar skips
+   * them until an edit generates SiGML.
+   */
+  | { type: "restore"; segments: RestoredSegment[] };
+
+export const initialPipelineState: PipelineState = { order: [], segments: {}, session: 0 };
+
+const STATUS_RANK: Record<SegmentStatus, number> = {
+  captured: 0,
+  transcribed: 1,
+  glossed: 2,
+  "no-sigml": 3,
+  "sigml-ready": 4,
+  played: 5,
+  failed: 6,
+};
+
+export const isSettled = (segment: PipelineSegment) =>
+  segment.status === "no-sigml" ||
+  segment.status === "sigml-ready" ||
+  segment.status === "played" ||
+  segment.status === "failed";
+
+const update = (state: PipelineState, id: string, patch: Partial<PipelineSegment>): PipelineState => {
+  const current = state.segments[id];
+  if (!current) return state;
+  // Never move a segment backwards (e.g. a late "glossed" after "failed")
+  if (patch.status && STATUS_RANK[patch.status] < STATUS_RANK[current.status]) return state;
+  return { ...state, segments: { ...state.segments, [id]: { ...current, ...patch } } };
+};
+
+export function pipelineReducer(state: PipelineState, action: PipelineAction): PipelineState {
+  switch (action.type) {
+    case "captured":
+      if (state.segments[action.id]) return state;
+      return {
+        ...state,
+        order: [...state.order, action.id],
+        segments: {
+          ...state.segments,
+          [action.id]: {
+            id: action.id,
+            status: "captured",
+            transcription: "",
+            gloss: "",
+            sigml: "",
+            startedAt: action.startedAt,
+            endedAt: action.endedAt,
+          },
+        },
+      };
+    case "audio":
+      return update(state, action.id, { audio: action.audio });
+    case "transcribed":
+      return update(state, action.id, { status: "transcribed", transcription: action.transcription });
+    case "glossed":
+      return update(state, action.id, { status: "glossed", gloss: action.gloss, machineGloss: action.gloss });
+    case "sigml-ready":
+      return update(state, action.id, { status: "sigml-ready", sigml: action.sigml });
+    case "played":
+      return update(state, action.id, { status: "played" });
+    case "failed":
+      return update(state, action.id, { status: "failed", error: action.error });
+    case "discarded": {
+      if (!state.segments[action.id]) return state;
+      const { [action.id]: _removed, ...segments } = state.segments;
+      return { ...state, order: state.order.filter((id) => id !== action.id), segments };
+    }
+    case "edit-transcription":
+    case "edit-gloss": {
+      const field = action.type === "edit-gloss" ? "gloss" : "transcription";
+      const value = action.type === "edit-gloss" ? action.gloss : action.transcription;
+      const current = state.segments[action.id];
+      if (!current || current[field] === value) return state;
+      const edit: SegmentEdit = { field, previous: current[field], value, editedAt: action.editedAt };
+      return update(state, action.id, {
+        [field]: value,
+        edits: [...(current.edits || []), edit],
+        revising: true,
+        revisionError: undefined,
+      });
+    }
+    case "revised":
+      return update(state, action.id, {
+        sigml: action.sigml,
+        ...(action.gloss !== undefined && { gloss: action.gloss, machineGloss: action.gloss }),
+        // A restored segment without SiGML joins the avatar queue once a correction produced some
+        ...(state.segments[action.id]?.status === "no-sigml" && action.sigml.trim() ? { status: "sigml-ready" as const } : {}),
+        revising: false,
+      });
+    case "revision-failed":
+      return update(state, action.id, { revising: false, revisionError: action.error });
+    case "clear":
+      return { ...initialPipelineState, session: state.session + 1 };
+    case "restore":
+      return {
+        session: state.session + 1,
+        order: action.segments.map((s) => s.id),
+        segments: Object.fromEntries(
+          action.segments.map((s): [string, PipelineSegment] => [
+            s.id,
+            { ...s, status: s.sigml.trim() ? "sigml-ready" : "no-sigml" },
+          ])
+        ),
+      };
+    default:
+      return state;
+  }
+}
+
+/** All segments in capture order. */
+export const selectSegments = (state: PipelineState): PipelineSegment[] =>
+  state.order.map((id) => state.segments[id]).filter(Boolean);
+
+/**
+ * Sentences ready for the avatar, in capture order. Stops at the first segment
+ * still in flight so a fast later segment cannot overtake a slow earlier one;
+ * failed and no-sigml segments are skipped.
+ */
+export function selectCommittedSentences(state: PipelineState): PipelineSegment[] {
+  const committed: PipelineSegment[] = [];
+  for (const segment of selectSegments(state)) {
+    if (!isSettled(segment)) break;
+    if (segment.status !== "failed" && segment.status !== "no-sigml") committed.push(segment);
+  }
+  return committed;
+}
+
+/** Segments that have not been released to the avatar yet (in flight or blocked behind one). */
+export function selectPendingSegments(state: PipelineState): PipelineSegment[] {
+  const committedIds = new Set(selectCommittedSentences(state).map((s) => s.id));
+  return selectSegments(state).filter((s) => s.status !== "failed" && s.status !== "no-sigml" && !committedIds.has(s.id));
+}
@@ -0,0 +1,98 @@
+import { isGlossCorrected } from "@/app/lib/gloss";
+import { glossToSigml } from "@/app/lib/translate";
+
+/**
+ * SiGML helpers for working with individual signs. A SiGML document is a
+ * `<sigml>` root holding one element per sign (`hns_sign` for HamNoSys,
+ * `hamgestural_sign` for gestural SiGML), each tagged with a `gloss` attribute.
+ */
+
+export interface SigmlSign {
+  gloss: string;
+  xml: string;
+}
+
+const SIGN_ELEMENT = /<(hns_sign|hamgestural_sign)\b[^>]*>[\s\S]*?<\/\1>/gi;
+const GLOSS_ATTRIBUTE = /\bgloss="([^"]*)"/i;
+
+/** Every sign element in document order. */
+export function extractSigns(sigml: string): SigmlSign[] {
+  return Array.from(sigml.matchAll(SIGN_ELEMENT), (m) => ({
+    gloss: (m[0].match(GLOSS_ATTRIBUTE)?.[1] || "").trim(),
+    xml: m[0],
+  }));
+}
+
+export const wrapSigml = (signs: string[]) =>
+  `<?xml version="1.0" encoding="utf-8"?>\n<sigml>\n${signs.join("\n")}\n</sigml>`;
+
+const normalizeGloss = (gloss: string) => gloss.trim().toUpperCase();
+
+/**
+ * The sign for `token` in a segment's SiGML: its `occurrence`-th match when
+ * the token appears more than once, else the first. Null when no sign carries
+ * that gloss.
+ */
+export function findSign(sigml: string, token: string, occurrence = 0): string | null {
+  const matches = extractSigns(sigml).filter((sign) => normalizeGloss(sign.gloss) === normalizeGloss(token));
+  if (matches.length === 0) return null;
+  return (matches[occurrence] || matches[0]).xml;
+}
+
+/**
+ * A SiGML document holding just one sign: cut from the segment's SiGML when
+ * possible, otherwise generated for the single token by `/gloss-to-sigml`.
+ */
+export async function singleSignSigml(token: string, segmentSigml: string, occurrence = 0, signal?: AbortSignal) {
+  const sign = segmentSigml ? findSign(segmentSigml, token, occurrence) : null;
+  return sign ? wrapSigml([sign]) : glossToSigml(token, signal);
+}
+
+/** Gloss the avatar signs when it is previewed. */
+export const GREETING_GLOSS = "HELLO";
+
+let greeting: Promise<string> | null = null;
+
+/** SiGML for the preview greeting; generated once per page load and reused for every avatar. */
+export function greetingSigml() {
+  if (!greeting) {
+    greeting = glossToSigml(GREETING_GLOSS).catch((e) => {
+      greeting = null;
+      throw e;
+    });
+  }
+  return greeting;
+}
+
+/** Which SiGML an avatar slot plays for a sentence in the comparison view. */
+export type SigmlSource = "current" | "machine";
+
+export const SIGML_SOURCE_LABELS: Record<SigmlSource, string> = {
+  current: "Current gloss",
+  machine: "Machine gloss",
+};
+
+const machineSigml = new Map<string, Promise<string>>();
+
+/**
+ * The gloss and SiGML a slot plays for `sentence`: as it stands, or as the
+ * backend's own gloss signs it before any correction. The machine variant is
+ * generated on first use and cached; uncorrected sentences are the same either way.
+ */
+export async function sigmlForSource(
+  sentence: { gloss: string; sigml: string; machineGloss?: string },
+  source: SigmlSource
+): Promise<{ gloss: string; sigml: string }> {
+  if (source === "current" || !isGlossCorrected(sentence)) return { gloss: sentence.gloss, sigml: sentence.sigml };
+
+  const gloss = sentence.machineGloss;
+  let sigml = machineSigml.get(gloss);
+  if (!sigml) {
+    sigml = glossToSigml(gloss).catch((e) => {
+      machineSigml.delete(gloss);
+      throw e;
+    });
+    machineSigml.set(gloss, sigml);
+  }
+  return { gloss, sigml: await sigml };
+}
@@ -0,0 +1,235 @@
+import { backendUrl, createSpeak2SignClient } from "@/app/lib/backend";
+import { isMockBackendEnabled } from "@/app/lib/mock-backend";
+
+/**
+ * Pluggable speech-to-text providers used by the voice recorder.
+ *
+ * Every adapter takes a 16 kHz mono WAV segment and returns plain text, so the
+ * recorder does not need to know which service sits behind it.
+ */
+
+export type TranscriptionProviderId = "proxy" | "azure" | "openai" | "backend";
+
+/** Providers that talk to a speech service directly (everything except the proxy). */
+export type UpstreamProviderId = Exclude<TranscriptionProviderId, "proxy">;
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  /** BCP‑47 locale, e.g. "en-US". */
+  locale: string;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  provider: TranscriptionProviderId;
+}
+
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export interface AzureProviderOptions {
+  /** Fast Transcription endpoint, including the api-version query. */
+  url: string;
+  /** "Ocp-Apim-Subscription-Key" header value. */
+  apiKey: string;
+}
+
+export interface OpenAIProviderOptions {
+  /** Full `/v1/audio/transcriptions` URL, e.g. a local whisper.cpp server. */
+  url: string;
+  apiKey?: string;
+  model?: string;
+}
+
+export interface ProxyProviderOptions {
+  /** Route handler that holds the secrets (its TRANSCRIPTION_PROVIDER picks the upstream). Defaults to "/api/transcribe". */
+  url?: string;
+}
+
+export interface BackendProviderOptions {
+  /** Speak2Sign backend base URL; the adapter posts to `${baseUrl}/transcribe`. */
+  baseUrl: string;
+}
+
+export const DEFAULT_AZURE_TRANSCRIBER_URL =
+  "https://australiaeast.api.cognitive.microsoft.com/speechtotext/transcriptions:transcribe?api-version=2024-11-15";
+
+export const DEFAULT_OPENAI_TRANSCRIBER_URL = "http://localhost:8080/v1/audio/transcriptions";
+
+const ensureOk = async (resp: Response, label: string) => {
+  if (resp.ok) return;
+  const text = await resp.text().catch(() => "");
+  throw new Error(`${label} failed: HTTP ${resp.status} ${resp.statusText} ${text}`.trim());
+};
+
+export function createAzureProvider({ url, apiKey }: AzureProviderOptions): TranscriptionProvider {
+  return {
+    id: "azure",
+    async transcribe({ audio, locale, signal }) {
+      // Build multipart form: { audio, definition }
+      const form = new FormData();
+      form.append("audio", audio, "segment.wav");
+      form.append("definition", JSON.stringify({ locales: [locale || "en-US"] }));
+
+      const resp = await fetch(url, {
+        method: "POST",
+        headers: { "Ocp-Apim-Subscription-Key": apiKey },
+        body: form,
+        signal,
+      });
+      await ensureOk(resp, "Fast Transcription");
+
+      const data = await resp.json();
+      // Microsoft FT response shape: combinedPhrases[0].text
+      return { text: data?.combinedPhrases?.[0]?.text ?? "", provider: "azure" };
+    },
+  };
+}
+
+export function createOpenAIProvider({ url, apiKey, model = "whisper-1" }: OpenAIProviderOptions): TranscriptionProvider {
+  return {
+    id: "openai",
+    async transcribe({ audio, locale, signal }) {
+      const form = new FormData();
+      form.append("file", audio, "segment.wav");
+      form.append("model", model);
+      form.append("response_format", "json");
+      // Whisper expects ISO‑639‑1 ("en"), not a full BCP‑47 tag
+      if (locale) form.append("language", locale.split("-")[0].toLowerCase());
+
+      const resp = await fetch(url, {
+        method: "POST",
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        body: form,
+        signal,
+      });
+      await ensureOk(resp, "Whisper transcription");
+
+      const data = await resp.json();
+      return { text: (data?.text ?? "").trim(), provider: "openai" };
+    },
+  };
+}
+
+/**
+ * Posts the segment to our own Next.js route, which attaches the server-only
+ * credentials and forwards it to the configured upstream provider.
+ */
+export function createProxyProvider({ url = "/api/transcribe" }: ProxyProviderOptions = {}): TranscriptionProvider {
+  return {
+    id: "proxy",
+    async transcribe({ audio, locale, signal }) {
+      const form = new FormData();
+      form.append("audio", audio, "segment.wav");
+      form.append("locale", locale || "en-US");
+
+      const resp = await fetch(url, { method: "POST", body: form, signal });
+      await ensureOk(resp, "Transcription proxy");
+
+      const data = await resp.json();
+      return { text: data?.text ?? "", provider: isTranscriptionProviderId(data?.provider) ? data.provider : "proxy" };
+    },
+  };
+}
+
+export function createBackendProvider({ baseUrl }: BackendProviderOptions): TranscriptionProvider {
+  const client = createSpeak2SignClient({ baseUrl });
+  return {
+    id: "backend",
+    async transcribe({ audio, locale, signal }) {
+      const { text } = await client.transcribe({ audio, locale }, { signal });
+      return { text, provider: "backend" };
+    },
+  };
+}
+
+export interface TranscriptionSettings {
+  proxy?: ProxyProviderOptions;
+  azure?: Partial<AzureProviderOptions>;
+  openai?: Partial<OpenAIProviderOptions>;
+  backend?: Partial<BackendProviderOptions>;
+}
+
+export const isUpstreamProviderId = (value: unknown): value is UpstreamProviderId =>
+  value === "azure" || value === "openai" || value === "backend";
+
+export const isTranscriptionProviderId = (value: unknown): value is TranscriptionProviderId =>
+  value === "proxy" || isUpstreamProviderId(value);
+
+/**
+ * Builds a provider by id, filling anything not passed in `settings` from the
+ * NEXT_PUBLIC_* environment. Secrets are never read from the public env: calling
+ * Azure directly needs an explicit key, otherwise use the proxy.
+ */
+export function createTranscriptionProvider(
+  id: TranscriptionProviderId,
+  settings: TranscriptionSettings = {}
+): TranscriptionProvider {
+  switch (id) {
+    case "openai":
+      return createOpenAIProvider({
+        url: settings.openai?.url || process.env.NEXT_PUBLIC_OPENAI_TRANSCRIBER_URL || DEFAULT_OPENAI_TRANSCRIBER_URL,
+        apiKey: settings.openai?.apiKey,
+        model: settings.openai?.model || process.env.NEXT_PUBLIC_OPENAI_TRANSCRIBER_MODEL,
+      });
+    case "backend":
+      return createBackendProvider({
+        baseUrl: settings.backend?.baseUrl || backendUrl(),
+      });
+    case "azure":
+      if (!settings.azure?.apiKey) {
+        throw new Error("Azure transcription needs an API key; use the \"proxy\" provider to keep it server-side");
+      }
+      return createAzureProvider({
+        url: settings.azure.url || process.env.NEXT_PUBLIC_FALLBACK_TRANSCRIBER_URL || DEFAULT_AZURE_TRANSCRIBER_URL,
+        apiKey: settings.azure.apiKey,
+      });
+    case "proxy":
+    default:
+      return createProxyProvider(settings.proxy);
+  }
+}
+
+/**
+ * Provider chosen by NEXT_PUBLIC_TRANSCRIPTION_PROVIDER, defaulting to the server proxy
+ * (or to the mock backend's /transcribe when NEXT_PUBLIC_MOCK_BACKEND is set).
+ */
+export const defaultTranscriptionProviderId = (): TranscriptionProviderId => {
+  const fromEnv = process.env.NEXT_PUBLIC_TRANSCRIPTION_PROVIDER;
+  if (isTranscriptionProviderId(fromEnv)) return fromEnv;
+  return isMockBackendEnabled() ? "backend" : "proxy";
+};
+
+/** Providers offered in the UI. Azure is left out: calling it directly needs its key in the browser. */
+export const SELECTABLE_TRANSCRIPTION_PROVIDERS = ["proxy", "backend", "openai"] as const satisfies readonly TranscriptionProviderId[];
+
+export const TRANSCRIPTION_PROVIDER_LABELS: Record<TranscriptionProviderId, string> = {
+  proxy: "Server proxy",
+  backend: "Speak2Sign backend",
+  openai: "Whisper (OpenAI-compatible)",
+  azure: "Azure (direct)",
+};
+
+const PROVIDER_PREFERENCE_KEY = "speak2sign.transcription-provider";
+
+/** The provider picked in this browser, or null to use the environment default. */
+export function loadTranscriptionProviderPreference(): TranscriptionProviderId | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const stored = window.localStorage.getItem(PROVIDER_PREFERENCE_KEY);
+    return (SELECTABLE_TRANSCRIPTION_PROVIDERS as readonly string[]).includes(stored) ? (stored as TranscriptionProviderId) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveTranscriptionProviderPreference(id: TranscriptionProviderId) {
+  try {
+    window.localStorage.setItem(PROVIDER_PREFERENCE_KEY, id);
+  } catch {
+    // Storage full or disabled; the preference just won't persist
+  }
+}
@@ -0,0 +1,120 @@
+import { resample } from "@/app/lib/audio/resample";
+import { encodeWav, floatTo16BitPCM } from "@/app/lib/audio/wav";
+import { getSpeak2SignClient } from "@/app/lib/backend";
+import type { SegmentEvent } from "@/app/lib/pipeline";
+import type { TranscriptionProvider } from "@/app/lib/transcription";
+
+/**
+ * Speech → text → ASL gloss → SiGML steps shared by every input mode (live
+ * microphone, uploaded files, typed text). Each step is reported as a
+ * `SegmentEvent` for the page's pipeline reducer.
+ */
+
+export type EmitSegmentEvent = (event: SegmentEvent) => void;
+
+const TRANSCRIPTION_SR = 16000;
+
+/** `/text-to-gloss`, treating an empty gloss as a failure. */
+export async function textToGloss(text: string, signal?: AbortSignal) {
+  const { gloss } = await getSpeak2SignClient().textToGloss({ text }, { signal });
+  if (!gloss) throw new Error("Gloss conversion returned no gloss");
+  return gloss;
+}
+
+/** `/gloss-to-sigml`, treating empty SiGML as a failure. */
+export async function glossToSigml(gloss: string, signal?: AbortSignal) {
+  const { sigml } = await getSpeak2SignClient().glossToSigml({ gloss }, { signal });
+  if (!sigml) throw new Error("SiGML generation returned no SiGML");
+  return sigml;
+}
+
+/** Gloss and SiGML for a segment whose text is known. Throws on failure. */
+export async function translateTranscription(id: string, transcription: string, emit: EmitSegmentEvent, signal?: AbortSignal) {
+  const gloss = await textToGloss(transcription, signal);
+  emit({ type: "glossed", id, gloss });
+
+  const sigml = await glossToSigml(gloss, signal);
+  emit({ type: "sigml-ready", id, sigml });
+}
+
+export interface SegmentAudio {
+  id: string;
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface TranscribeOptions {
+  transcriber: TranscriptionProvider;
+  locale: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Full pipeline for one captured segment: 16 kHz WAV → transcription → gloss
+ * → SiGML. Never throws; every outcome, including failure, goes to `emit`.
+ */
+export async function processSegmentAudio(
+  { id, samples, sampleRate }: SegmentAudio,
+  { transcriber, locale, signal }: TranscribeOptions,
+  emit: EmitSegmentEvent
+) {
+  try {
+    const pcm16 = floatTo16BitPCM(resample(samples, sampleRate, TRANSCRIPTION_SR));
+    const wav = encodeWav(pcm16, TRANSCRIPTION_SR);
+    emit({ type: "audio", id, audio: wav });
+
+    const { text } = await transcriber.transcribe({ audio: wav, locale, signal });
+    if (!text) {
+      // No speech recognized: drop the segment rather than glossing nothing
+      emit({ type: "discarded", id });
+      return;
+    }
+    emit({ type: "transcribed", id, transcription: text });
+
+    await translateTranscription(id, text, emit, signal);
+  } catch (e: any) {
+    emit({ type: "failed", id, error: e?.message || "Unknown error while processing segment" });
+  }
+}
+
+/**
+ * Pipeline for typed text: the text stands in for the transcription.
+ * Never throws; every outcome goes to `emit`.
+ */
+export async function processSegmentText(id: string, text: string, emit: EmitSegmentEvent, signal?: AbortSignal) {
+  try {
+    emit({ type: "transcribed", id, transcription: text });
+    await translateTranscription(id, text, emit, signal);
+  } catch (e: any) {
+    emit({ type: "failed", id, error: e?.message || "Unknown error while processing text" });
+  }
+}
+
+/**
+ * Splits pasted text into sentences so each becomes its own segment. Breaks
+ * after ., ! or ? (plus closing quotes/brackets) followed by whitespace, and
+ * at blank lines; common abbreviations such as "Dr." do not end a sentence.
+ */
+export function splitSentences(text: string): string[] {
+  const ABBREVIATION = /\b(?:mr|mrs|ms|dr|prof|sr|jr|st|vs|etc|e\.g|i\.e)\.$/i;
+  const sentences: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const flat = paragraph.replace(/\s+/g, " ").trim();
+    let start = 0;
+    for (let i = 0; i < flat.length; i++) {
+      if (!".!?".includes(flat[i])) continue;
+      let end = i + 1;
+      while (end < flat.length && "\"')]".includes(flat[end])) end++;
+      // Only a break when followed by a space (not "3.5" or "example.com")
+      if (end < flat.length && flat[end] !== " ") continue;
+      const sentence = flat.slice(start, end).trim();
+      if (ABBREVIATION.test(sentence)) continue;
+      if (sentence) sentences.push(sentence);
+      start = end;
+      i = end - 1;
+    }
+    const rest = flat.slice(start).trim();
+    if (rest) sentences.push(rest);
+  }
+  return sentences;
+}
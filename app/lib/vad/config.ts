@@ -0,0 +1,134 @@
+import { z } from "zod";
+
+/**
+ * Tunable voice-detection parameters shared by the recorder, the engines and
+ * the segmenter, plus the named presets offered in the tuning panel.
+ */
+
+export const vadConfigSchema = z.object({
+  engine: z.enum(["energy", "silero"]),
+  /** Analysis frame size for the energy engine (Silero always uses 32 ms windows). */
+  frameSizeMs: z.number().min(5).max(50),
+  /** Silence needed before a segment closes. */
+  hangoverMs: z.number().min(100).max(3000),
+  /** Consecutive voiced frames needed to open a segment. */
+  startTriggerFrames: z.number().int().min(1).max(20),
+  /** Energy threshold = noise floor × levelSensitivity. */
+  levelSensitivity: z.number().min(1).max(10),
+  /** Noise-floor smoothing; higher tracks slower. */
+  noiseAlpha: z.number().min(0.5).max(0.999),
+  /** Frames quieter than this are always silence. */
+  minDbfsGate: z.number().min(-90).max(-10),
+  /** Minimum speech to keep a segment. */
+  minVoiceMs: z.number().min(0).max(2000),
+  preRollMs: z.number().min(0).max(1000),
+  postRollMs: z.number().min(0).max(1000),
+  /** Forced split length; 0 disables. */
+  maxSegmentMs: z.number().min(0).max(120000),
+  splitSearchMs: z.number().min(100).max(5000),
+});
+
+export type VADConfig = z.infer<typeof vadConfigSchema>;
+
+export const DEFAULT_VAD_CONFIG: VADConfig = {
+  engine: "energy",
+  frameSizeMs: 10,
+  hangoverMs: 400,
+  startTriggerFrames: 2,
+  levelSensitivity: 1.5,
+  noiseAlpha: 0.95,
+  minDbfsGate: -55,
+  minVoiceMs: 200,
+  preRollMs: 300,
+  postRollMs: 200,
+  maxSegmentMs: 15000,
+  splitSearchMs: 1500,
+};
+
+export type VADPresetId = "quiet-room" | "classroom" | "noisy-hall";
+
+export const VAD_PRESETS: Record<VADPresetId, { label: string; config: VADConfig }> = {
+  "quiet-room": {
+    label: "Quiet room",
+    config: DEFAULT_VAD_CONFIG,
+  },
+  classroom: {
+    label: "Classroom",
+    config: {
+      ...DEFAULT_VAD_CONFIG,
+      hangoverMs: 500,
+      startTriggerFrames: 3,
+      levelSensitivity: 2.2,
+      noiseAlpha: 0.97,
+      minDbfsGate: -48,
+    },
+  },
+  "noisy-hall": {
+    label: "Noisy hall",
+    config: {
+      ...DEFAULT_VAD_CONFIG,
+      engine: "silero",
+      hangoverMs: 600,
+      startTriggerFrames: 4,
+      levelSensitivity: 3,
+      noiseAlpha: 0.98,
+      minDbfsGate: -40,
+      minVoiceMs: 300,
+    },
+  },
+};
+
+export const resolveVADConfig = (overrides: Partial<VADConfig> = {}): VADConfig => ({
+  ...DEFAULT_VAD_CONFIG,
+  ...overrides,
+});
+
+// ---- Per-browser persistence ----
+
+const STORAGE_KEY = "speak2sign.vad-settings";
+
+const storedSettingsSchema = z.object({
+  preset: z.union([z.enum(["quiet-room", "classroom", "noisy-hall"]), z.literal("custom")]),
+  config: vadConfigSchema,
+});
+
+export type StoredVADSettings = z.infer<typeof storedSettingsSchema>;
+
+export function loadVADSettings(): StoredVADSettings | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = storedSettingsSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveVADSettings(settings: StoredVADSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Private mode / quota: tuning still works for this session
+  }
+}
+
+// ---- Mapping onto the engine and segmenter options ----
+
+export const energyOptionsFrom = (config: VADConfig) => ({
+  frameSizeMs: config.frameSizeMs,
+  noiseAlpha: config.noiseAlpha,
+  levelSensitivity: config.levelSensitivity,
+  minDbfsGate: config.minDbfsGate,
+});
+
+export const segmenterOptionsFrom = (config: VADConfig) => ({
+  startTriggerFrames: config.startTriggerFrames,
+  hangoverMs: config.hangoverMs,
+  minVoiceMs: config.minVoiceMs,
+  preRollMs: config.preRollMs,
+  postRollMs: config.postRollMs,
+  maxSegmentMs: config.maxSegmentMs,
+  splitSearchMs: config.splitSearchMs,
+});
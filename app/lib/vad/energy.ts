@@ -0,0 +1,71 @@
+import type { VADEngine, VADFrameContext, VADFrameDecision } from "@/app/lib/vad/types";
+
+export interface EnergyVADOptions {
+  /** Analysis frame size. */
+  frameSizeMs?: number;
+  /** Higher -> slower noise tracking. */
+  noiseAlpha?: number;
+  /** Threshold = noiseRms * levelSensitivity. */
+  levelSensitivity?: number;
+  /** Below this (approx), treat as silence regardless of noise. */
+  minDbfsGate?: number;
+}
+
+/**
+ * Short-term energy detector with an adaptive noise floor. Zero dependencies,
+ * cheap enough to run on every 10 ms frame.
+ *
+ * Like SpeechSegmenter, the class is serialized into the AudioWorklet, so it
+ * must stay self-contained (no imports used at runtime, no field initializers).
+ */
+export class EnergyVAD implements VADEngine {
+  readonly kind: "energy";
+
+  private frameSizeMs: number;
+  private noiseAlpha: number;
+  private levelSensitivity: number;
+  private minDbfsGate: number;
+
+  noiseRms: number;
+
+  constructor({ frameSizeMs = 10, noiseAlpha = 0.95, levelSensitivity = 1.5, minDbfsGate = -55 }: EnergyVADOptions = {}) {
+    this.kind = "energy";
+    this.noiseRms = 0.001;
+    this.frameSizeMs = frameSizeMs;
+    this.noiseAlpha = noiseAlpha;
+    this.levelSensitivity = levelSensitivity;
+    this.minDbfsGate = minDbfsGate;
+  }
+
+  /** Retune in place; the learned noise floor is kept. */
+  configure(options: EnergyVADOptions) {
+    this.frameSizeMs = options.frameSizeMs ?? this.frameSizeMs;
+    this.noiseAlpha = options.noiseAlpha ?? this.noiseAlpha;
+    this.levelSensitivity = options.levelSensitivity ?? this.levelSensitivity;
+    this.minDbfsGate = options.minDbfsGate ?? this.minDbfsGate;
+  }
+
+  frameSamples(sampleRate: number) {
+    return Math.round((this.frameSizeMs / 1000) * sampleRate);
+  }
+
+  classify(frame: Float32Array, _sampleRate: number, { inSpeech }: VADFrameContext): VADFrameDecision {
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+    const rms = Math.sqrt(sum / frame.length) + 1e-12;
+    const gate = 20 * Math.log10(Math.max(1e-9, rms)) > this.minDbfsGate;
+
+    const thr = this.noiseRms * this.levelSensitivity;
+    if (!inSpeech && rms <= thr) {
+      this.noiseRms = this.noiseAlpha * this.noiseRms + (1 - this.noiseAlpha) * rms;
+    }
+
+    return { voiced: gate && rms > thr, rms, noiseRms: this.noiseRms, threshold: thr };
+  }
+
+  reset() {
+    this.noiseRms = 0.001;
+  }
+
+  dispose() {}
+}
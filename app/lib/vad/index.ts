@@ -0,0 +1,18 @@
+import { EnergyVAD, type EnergyVADOptions } from "@/app/lib/vad/energy";
+import { SileroVAD, type SileroVADOptions } from "@/app/lib/vad/silero";
+import type { VADEngine, VADEngineKind } from "@/app/lib/vad/types";
+
+export * from "@/app/lib/vad/types";
+export { EnergyVAD, SileroVAD };
+export type { EnergyVADOptions, SileroVADOptions };
+
+export interface VADEngineOptions {
+  energy?: EnergyVADOptions;
+  silero?: SileroVADOptions;
+}
+
+/** Builds an engine by kind; the Silero model is fetched and compiled on first use. */
+export async function createVADEngine(kind: VADEngineKind, options: VADEngineOptions = {}): Promise<VADEngine> {
+  if (kind === "silero") return SileroVAD.create(options.silero);
+  return new EnergyVAD(options.energy);
+}
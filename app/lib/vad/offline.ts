@@ -0,0 +1,59 @@
+import { createVADEngine } from "@/app/lib/vad";
+import { energyOptionsFrom, segmenterOptionsFrom, type VADConfig } from "@/app/lib/vad/config";
+import { SpeechSegmenter, type CapturedSegment } from "@/app/lib/vad/segmenter";
+
+export interface OfflineSegmentationOptions {
+  config: VADConfig;
+  /** Fraction of the input analysed so far (0–1). */
+  onProgress?: (fraction: number) => void;
+  /** Called as soon as each segment is found, before the whole input has been analysed. */
+  onSegment?: (segment: CapturedSegment) => void;
+  signal?: AbortSignal;
+}
+
+// Work in slices of this length before yielding to the event loop
+const YIELD_EVERY_MS = 30;
+
+/**
+ * Runs the live VAD and segmenter over a complete recording, as fast as the
+ * engine allows. Segment `startSample`s are offsets into `samples`.
+ */
+export async function segmentOffline(
+  samples: Float32Array,
+  sampleRate: number,
+  { config, onProgress, onSegment, signal }: OfflineSegmentationOptions
+): Promise<CapturedSegment[]> {
+  const engine = await createVADEngine(config.engine, { energy: energyOptionsFrom(config) });
+  const segmenter = new SpeechSegmenter(sampleRate, segmenterOptionsFrom(config));
+  const frameSamples = engine.frameSamples(sampleRate);
+  const segments: CapturedSegment[] = [];
+  const found = (segment: CapturedSegment) => {
+    segments.push(segment);
+    onSegment?.(segment);
+  };
+
+  try {
+    let sliceStart = performance.now();
+    for (let offset = 0; offset + frameSamples <= samples.length; offset += frameSamples) {
+      const frame = samples.subarray(offset, offset + frameSamples);
+      const { voiced } = await engine.classify(frame, sampleRate, { inSpeech: segmenter.inSpeech });
+      for (const event of segmenter.process(frame, voiced)) {
+        if (event.type === "segment") found(event.segment);
+      }
+
+      if (performance.now() - sliceStart > YIELD_EVERY_MS) {
+        onProgress?.(offset / samples.length);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (signal?.aborted) throw new Error("Cancelled");
+        sliceStart = performance.now();
+      }
+    }
+
+    const last = segmenter.flush();
+    if (last) found(last);
+    onProgress?.(1);
+    return segments;
+  } finally {
+    engine.dispose();
+  }
+}
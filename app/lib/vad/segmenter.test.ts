@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { SpeechSegmenter, type CapturedSegment, type SegmenterEvent, type SegmenterOptions } from "@/app/lib/vad/segmenter";
+
+const SAMPLE_RATE = 16000;
+// 10 ms frames keep the option values below easy to count in frames
+const FRAME = 160;
+
+const OPTIONS: SegmenterOptions = {
+  startTriggerFrames: 3,
+  hangoverMs: 100,
+  preRollMs: 50,
+  postRollMs: 30,
+  minVoiceMs: 50,
+  maxSegmentMs: 0,
+  splitSearchMs: 200,
+};
+
+/** Every sample of frame `index` holds a value identifying that frame. */
+const marker = (index: number) => (index + 1) / 1000;
+
+/** Feeds frames `voiced[i]` with `marker(i)` samples; returns the events per frame index. */
+function feed(segmenter: SpeechSegmenter, voiced: boolean[], amplitude: (index: number) => number = marker) {
+  const events: { frame: number; event: SegmenterEvent }[] = [];
+  voiced.forEach((isVoiced, frame) => {
+    const samples = new Float32Array(FRAME).fill(amplitude(frame));
+    for (const event of segmenter.process(samples, isVoiced)) events.push({ frame, event });
+  });
+  return events;
+}
+
+const frames = (...runs: [voiced: boolean, count: number][]) =>
+  runs.flatMap(([voiced, count]) => Array<boolean>(count).fill(voiced));
+
+const segmentsOf = (events: { event: SegmenterEvent }[]) =>
+  events.flatMap(({ event }) => (event.type === "segment" ? [event.segment] : []));
+
+/** Frame index the sample at `offset` of `segment` came from. */
+const frameAt = (segment: CapturedSegment, offset: number) => Math.floor((segment.startSample + offset) / FRAME);
+
+describe("SpeechSegmenter", () => {
+  it("prepends the pre-roll captured before the start trigger", () => {
+    const segmenter = new SpeechSegmenter(SAMPLE_RATE, OPTIONS);
+    const events = feed(segmenter, frames([false, 20], [true, 20], [false, 20]));
+
+    // Triggered on frame 22 (third voiced frame); the ring holds the 5 frames before it
+    expect(events[0]).toEqual({ frame: 22, event: { type: "speech-start", startSample: 17 * FRAME } });
+
+    const [segment] = segmentsOf(events);
+    expect(segment.startSample).toBe(17 * FRAME);
+    expect(segment.samples[0]).toBeCloseTo(marker(17), 6);
+    // Pre-roll, then the voiced frames that did not trigger yet
+    expect(segment.samples[5 * FRAME]).toBeCloseTo(marker(22), 6);
+  });
+
+  it("keeps only postRollMs of the trailing silence", () => {
+    const segmenter = new SpeechSegmenter(SAMPLE_RATE, OPTIONS);
+    const [segment] = segmentsOf(feed(segmenter, frames([false, 20], [true, 20], [false, 20])));
+
+    // Voiced frames 20–39, then 3 frames (30 ms) of post-roll
+    const last = segment.samples.length - 1;
+    expect(frameAt(segment, last)).toBe(42);
+    expect(segment.samples[last]).toBeCloseTo(marker(42), 6);
+    expect(segment.samples.length).toBe((42 - 17 + 1) * FRAME);
+  });
+
+  it("closes the segment once hangoverMs of silence has passed", () => {
+    const segmenter = new SpeechSegmenter(SAMPLE_RATE, OPTIONS);
+    const events = feed(segmenter, frames([false, 20], [true, 20], [false, 20]));
+
+    // 10 unvoiced frames (100 ms) after the last voiced frame 39
+    expect(events.slice(1)).toEqual([
+      { frame: 49, event: { type: "speech-end" } },
+      { frame: 49, event: { type: "segment", segment: expect.anything() } },
+    ]);
+    expect(segmenter.inSpeech).toBe(false);
+  });
+
+  it("stays in speech through pauses shorter than hangoverMs", () => {
+    const segmenter = new SpeechSegmenter(SAMPLE_RATE, OPTIONS);
+    const events = feed(segmenter, frames([true, 10], [false, 9], [true, 10], [false, 20]));
+
+    const segments = segmentsOf(events);
+    expect(segments).toHaveLength(1);
+    expect(frameAt(segments[0], segments[0].samples.length - 1)).toBe(28 + 3);
+  });
+
+  it("splits at the quietest frame once maxSegmentMs is reached", () => {
+    const segmenter = new SpeechSegmenter(SAMPLE_RATE, { ...OPTIONS, maxSegmentMs: 500 });
+    const quiet = 45;
+    // Loud continuous speech with one near-silent (but still voiced) frame inside the search window
+    const amplitude = (frame: number) => (frame < 10 ? 0.001 : frame === quiet ? 0.01 : 0.5);
+    const events = feed(segmenter, frames([false, 10], [true, 60], [false, 20]), amplitude);
+
+    const segments = segmentsOf(events);
+    expect(segments).toHaveLength(2);
+    const [first, second] = segments;
+
+    // The segment starts at frame 7 (pre-roll) and hits 500 ms after frame 56
+    expect(events.find(({ event }) => event.type === "segment").frame).toBe(56);
+    expect(first.split).toBe(true);
+    expect(first.startSample).toBe(7 * FRAME);
+    // Cut in the middle of the quiet frame, not at the quieter pre-roll outside the search window
+    expect(first.samples.length).toBe((quiet - 7) * FRAME + FRAME / 2);
+
+    // The remainder continues seamlessly in the next segment
+    expect(second.split).toBeUndefined();
+    expect(second.startSample).toBe(first.startSample + first.samples.length);
+    expect(second.samples[0]).toBeCloseTo(0.01, 6);
+    expect(second.samples[FRAME / 2]).toBeCloseTo(0.5, 6);
+    expect(events.filter(({ event }) => event.type === "speech-start")).toHaveLength(1);
+  });
+
+  it("drops segments with less than minVoiceMs of speech", () => {
+    const segmenter = new SpeechSegmenter(SAMPLE_RATE, { ...OPTIONS, minVoiceMs: 100 });
+
+    // 5 voiced frames: only the 3 from the trigger on count as speech (30 ms)
+    const blip = feed(segmenter, frames([false, 10], [true, 5], [false, 20]));
+    expect(blip.map(({ event }) => event.type)).toEqual(["speech-start", "speech-end"]);
+
+    // 15 voiced frames: 13 count (130 ms)
+    const speech = feed(segmenter, frames([true, 15], [false, 20]));
+    expect(segmentsOf(speech)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Start/stop state machine that turns per-frame voiced decisions into speech
+ * segments.
+ *
+ * - a segment opens after `startTriggerFrames` consecutive voiced frames and
+ *   closes after `hangoverMs` of continuous unvoiced audio;
+ * - a ring buffer keeps the last `preRollMs` of audio so the onset that came
+ *   before the trigger (the first syllable) is prepended to the segment;
+ * - of the trailing hangover silence only `postRollMs` is kept;
+ * - a segment reaching `maxSegmentMs` is cut at the quietest frame of the
+ *   last `splitSearchMs` and emitted while capture continues, so a speaker who
+ *   never pauses still produces output.
+ *
+ * Pure and synchronous: the same class drives live capture and offline
+ * processing, and can be exercised with synthetic frames. Audio accumulates in
+ * preallocated buffers; the emitted segment copy is the only allocation.
+ *
+ * The class must not reference anything outside its own body: it is
+ * serialized into the AudioWorklet with `toString()` (see worklet.ts).
+ */
+
+export interface SegmenterOptions {
+  startTriggerFrames: number;
+  /** Unvoiced audio needed to close a segment. */
+  hangoverMs: number;
+  /** Audio before the start trigger prepended to each segment. */
+  preRollMs: number;
+  /** Trailing audio after the last voiced frame kept on each segment (≤ hangoverMs). */
+  postRollMs: number;
+  /** Segments with less speech than this (pre/post-roll excluded) are dropped. */
+  minVoiceMs: number;
+  /** Longest segment before a forced split; 0 disables splitting. */
+  maxSegmentMs: number;
+  /** How far back from the limit to look for the quietest cut point. */
+  splitSearchMs: number;
+}
+
+export interface CapturedSegment {
+  samples: Float32Array;
+  sampleRate: number;
+  /** Offset of the first sample since the segmenter was reset. */
+  startSample: number;
+  /** True when the segment was cut at `maxSegmentMs` and speech continues in the next one. */
+  split?: boolean;
+}
+
+export type SegmenterEvent =
+  | { type: "speech-start"; startSample: number }
+  | { type: "speech-end" }
+  | { type: "segment"; segment: CapturedSegment };
+
+export class SpeechSegmenter {
+  readonly sampleRate: number;
+  inSpeech: boolean;
+
+  private options: SegmenterOptions;
+  private consecVoiced: number;
+  private samplesSeen: number;
+
+  // Pre-roll ring buffer
+  private ring: Float32Array;
+  private ringWrite: number;
+  private ringFilled: number;
+
+  // Current segment: samples plus per-frame offset/energy for picking split points
+  private buf: Float32Array;
+  private segmentLength: number;
+  private frameOffsets: Int32Array;
+  private frameEnergies: Float32Array;
+  private frameCount: number;
+  private segmentStart: number;
+  private preRollSamples: number;
+  private trailingUnvoiced: number;
+
+  // Fields are assigned here rather than as initializers so the compiled class needs no helpers
+  constructor(sampleRate: number, options: SegmenterOptions) {
+    this.sampleRate = sampleRate;
+    this.options = Object.assign({}, options);
+    this.inSpeech = false;
+    this.consecVoiced = 0;
+    this.samplesSeen = 0;
+
+    this.ring = new Float32Array(this.msToSamples(options.preRollMs));
+    this.ringWrite = 0;
+    this.ringFilled = 0;
+
+    // Room for a max-length segment plus its pre-roll; only grows when splitting is disabled
+    this.buf = new Float32Array(this.msToSamples((options.maxSegmentMs || 30000) + options.preRollMs) + 1);
+    this.segmentLength = 0;
+    this.frameOffsets = new Int32Array(256);
+    this.frameEnergies = new Float32Array(256);
+    this.frameCount = 0;
+    this.segmentStart = 0;
+    this.preRollSamples = 0;
+    this.trailingUnvoiced = 0;
+  }
+
+  process(frame: Float32Array, voiced: boolean): SegmenterEvent[] {
+    const events: SegmenterEvent[] = [];
+    this.consecVoiced = voiced ? this.consecVoiced + 1 : 0;
+
+    if (!this.inSpeech && this.consecVoiced >= this.options.startTriggerFrames) {
+      this.inSpeech = true;
+      this.frameCount = 0;
+      this.trailingUnvoiced = 0;
+      this.preRollSamples = this.ringFilled;
+      this.drainRing();
+      this.segmentStart = this.samplesSeen - this.preRollSamples;
+      events.push({ type: "speech-start", startSample: this.segmentStart });
+    }
+
+    this.samplesSeen += frame.length;
+
+    if (!this.inSpeech) {
+      this.writeRing(frame);
+      return events;
+    }
+
+    this.append(frame);
+    this.trailingUnvoiced = voiced ? 0 : this.trailingUnvoiced + frame.length;
+
+    const maxSamples = this.msToSamples(this.options.maxSegmentMs);
+    if (maxSamples > 0 && this.segmentLength >= maxSamples) {
+      events.push({ type: "segment", segment: this.splitSegment() });
+      return events;
+    }
+
+    if (this.trailingUnvoiced >= this.msToSamples(this.options.hangoverMs)) {
+      events.push({ type: "speech-end" });
+      const segment = this.closeSegment();
+      if (segment) events.push({ type: "segment", segment });
+    }
+    return events;
+  }
+
+  /** Retune live. Changing the pre-roll length discards the audio buffered so far. */
+  configure(options: Partial<SegmenterOptions>) {
+    const preRollChanged = options.preRollMs !== undefined && options.preRollMs !== this.options.preRollMs;
+    this.options = Object.assign({}, this.options, options);
+    if (preRollChanged) {
+      this.ring = new Float32Array(this.msToSamples(this.options.preRollMs));
+      this.ringWrite = 0;
+      this.ringFilled = 0;
+    }
+  }
+
+  /** Close a segment that is still open (e.g. the microphone was stopped mid-utterance). */
+  flush(): CapturedSegment | null {
+    if (!this.inSpeech) return null;
+    return this.closeSegment();
+  }
+
+  reset() {
+    this.inSpeech = false;
+    this.consecVoiced = 0;
+    this.samplesSeen = 0;
+    this.ringWrite = 0;
+    this.ringFilled = 0;
+    this.segmentLength = 0;
+    this.frameCount = 0;
+    this.trailingUnvoiced = 0;
+  }
+
+  /** Copy a frame into the segment buffer and record its energy; grows the buffers only when full. */
+  private append(frame: Float32Array) {
+    if (this.segmentLength + frame.length > this.buf.length) {
+      const grown = new Float32Array(Math.max(this.buf.length * 2, this.segmentLength + frame.length));
+      grown.set(this.buf.subarray(0, this.segmentLength));
+      this.buf = grown;
+    }
+    if (this.frameCount === this.frameOffsets.length) {
+      const offsets = new Int32Array(this.frameCount * 2);
+      const energies = new Float32Array(this.frameCount * 2);
+      offsets.set(this.frameOffsets);
+      energies.set(this.frameEnergies);
+      this.frameOffsets = offsets;
+      this.frameEnergies = energies;
+    }
+
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+    this.frameOffsets[this.frameCount] = this.segmentLength;
+    this.frameEnergies[this.frameCount] = frame.length > 0 ? sum / frame.length : 0;
+    this.frameCount++;
+
+    this.buf.set(frame, this.segmentLength);
+    this.segmentLength += frame.length;
+  }
+
+  /**
+   * Emit everything up to the quietest frame near the end and keep the rest
+   * as the start of a new segment; stays in speech.
+   */
+  private splitSegment(): CapturedSegment {
+    const searchFrom = this.segmentLength - this.msToSamples(this.options.splitSearchMs);
+
+    let cut = this.segmentLength;
+    let firstKept = this.frameCount;
+    let quietest = Infinity;
+    for (let f = 0; f < this.frameCount; f++) {
+      const offset = this.frameOffsets[f];
+      if (offset < searchFrom) continue;
+      if (this.frameEnergies[f] < quietest) {
+        quietest = this.frameEnergies[f];
+        const end = f + 1 < this.frameCount ? this.frameOffsets[f + 1] : this.segmentLength;
+        cut = offset + Math.floor((end - offset) / 2);
+        firstKept = f + 1;
+      }
+    }
+
+    const segment: CapturedSegment = {
+      samples: this.buf.slice(0, cut),
+      sampleRate: this.sampleRate,
+      startSample: this.segmentStart,
+      split: true,
+    };
+
+    // Shift the remainder and its frame records to the front
+    this.buf.copyWithin(0, cut, this.segmentLength);
+    this.segmentLength -= cut;
+    let kept = 0;
+    for (let f = firstKept; f < this.frameCount; f++, kept++) {
+      this.frameOffsets[kept] = this.frameOffsets[f] - cut;
+      this.frameEnergies[kept] = this.frameEnergies[f];
+    }
+    this.frameCount = kept;
+    this.segmentStart += cut;
+    this.preRollSamples = 0;
+    // Trailing silence is only meaningful if it lies after the cut
+    this.trailingUnvoiced = Math.min(this.trailingUnvoiced, this.segmentLength);
+    return segment;
+  }
+
+  private closeSegment(): CapturedSegment | null {
+    this.inSpeech = false;
+    this.consecVoiced = 0;
+
+    const total = this.segmentLength;
+    const dropTail = Math.max(0, this.trailingUnvoiced - this.msToSamples(this.options.postRollMs));
+    const length = total - dropTail;
+    const speechSamples = total - this.preRollSamples - this.trailingUnvoiced;
+
+    this.segmentLength = 0;
+    this.frameCount = 0;
+    this.trailingUnvoiced = 0;
+
+    // The dropped tail is the audio right before a possible next onset: seed the pre-roll with it
+    this.ringWrite = 0;
+    this.ringFilled = 0;
+    this.writeRing(this.buf.subarray(length, total));
+
+    if ((speechSamples / this.sampleRate) * 1000 < this.options.minVoiceMs) return null;
+    return { samples: this.buf.slice(0, length), sampleRate: this.sampleRate, startSample: this.segmentStart };
+  }
+
+  private writeRing(frame: Float32Array) {
+    const cap = this.ring.length;
+    if (cap === 0) return;
+    // Only the newest `cap` samples matter
+    const src = frame.length > cap ? frame.subarray(frame.length - cap) : frame;
+    const first = Math.min(src.length, cap - this.ringWrite);
+    this.ring.set(src.subarray(0, first), this.ringWrite);
+    if (first < src.length) this.ring.set(src.subarray(first), 0);
+    this.ringWrite = (this.ringWrite + src.length) % cap;
+    this.ringFilled = Math.min(cap, this.ringFilled + src.length);
+  }
+
+  /** Move the ring contents, oldest first, to the start of the segment buffer; empties the ring. */
+  private drainRing() {
+    const cap = this.ring.length;
+    const filled = this.ringFilled;
+    if (filled > 0) {
+      const start = (this.ringWrite - filled + cap) % cap;
+      const first = Math.min(filled, cap - start);
+      this.buf.set(this.ring.subarray(start, start + first), 0);
+      if (first < filled) this.buf.set(this.ring.subarray(0, filled - first), first);
+    }
+    this.segmentLength = filled;
+    this.ringWrite = 0;
+    this.ringFilled = 0;
+  }
+
+  private msToSamples(ms: number) {
+    return Math.round((ms / 1000) * this.sampleRate);
+  }
+}
@@ -0,0 +1,129 @@
+import type { InferenceSession, Tensor } from "onnxruntime-web";
+import { PolyphaseResampler } from "@/app/lib/audio/resample";
+import { frameRms, type VADEngine, type VADFrameContext, type VADFrameDecision } from "@/app/lib/vad/types";
+
+export interface SileroVADOptions {
+  /** URL of the Silero v5 ONNX model. */
+  modelUrl?: string;
+  /** URL of onnxruntime-web's WASM binary (the JS glue is bundled). */
+  wasmUrl?: string;
+  /** Probability above which a frame counts as speech. */
+  positiveThreshold?: number;
+  /** Once in speech, frames stay voiced until probability drops below this. */
+  negativeThreshold?: number;
+}
+
+// Both files are copied from node_modules by next.config.js
+export const DEFAULT_SILERO_MODEL_URL = "/_next/static/vad/silero_vad_v5.onnx";
+export const DEFAULT_ORT_WASM_URL = "/_next/static/vad/ort-wasm-simd-threaded.wasm";
+
+// Silero v5 runs on 512-sample windows at 16 kHz (32 ms)
+const MODEL_SR = 16000;
+const MODEL_WINDOW = 512;
+const STATE_DIMS = [2, 1, 128];
+
+type Ort = typeof import("onnxruntime-web");
+
+/**
+ * Neural VAD backed by the Silero v5 model on the onnxruntime-web WASM (CPU)
+ * backend. Far less prone than the energy detector to fire on steady HVAC
+ * noise and keyboard clicks.
+ *
+ * Create with `SileroVAD.create()`; inference is async, so callers must
+ * serialize `classify` calls to keep the recurrent state in order.
+ */
+export class SileroVAD implements VADEngine {
+  readonly kind = "silero" as const;
+
+  private state: Tensor;
+  private resampler: PolyphaseResampler | null = null;
+  // Model-rate samples not yet run through the model; the resampler's output
+  // per frame drifts by a sample or two around MODEL_WINDOW
+  private pending = new Float32Array(2 * MODEL_WINDOW);
+  private pendingLength = 0;
+  private probability = 0;
+
+  private constructor(
+    private readonly ort: Ort,
+    private readonly session: InferenceSession,
+    private readonly sr: Tensor,
+    private readonly positiveThreshold: number,
+    private readonly negativeThreshold: number
+  ) {
+    this.state = this.newState();
+  }
+
+  static async create({
+    modelUrl = DEFAULT_SILERO_MODEL_URL,
+    wasmUrl = DEFAULT_ORT_WASM_URL,
+    positiveThreshold = 0.5,
+    negativeThreshold = 0.35,
+  }: SileroVADOptions = {}): Promise<SileroVAD> {
+    const ort: Ort = await import("onnxruntime-web/wasm");
+    ort.env.wasm.wasmPaths = { wasm: wasmUrl };
+    ort.env.wasm.numThreads = 1;
+
+    const resp = await fetch(modelUrl);
+    if (!resp.ok) throw new Error(`Could not load Silero VAD model: HTTP ${resp.status}`);
+    const model = new Uint8Array(await resp.arrayBuffer());
+
+    const session = await ort.InferenceSession.create(model, { executionProviders: ["wasm"] });
+    const sr = new ort.Tensor("int64", [MODEL_SR]);
+    return new SileroVAD(ort, session, sr, positiveThreshold, negativeThreshold);
+  }
+
+  frameSamples(sampleRate: number) {
+    return Math.round((MODEL_WINDOW * sampleRate) / MODEL_SR);
+  }
+
+  async classify(frame: Float32Array, sampleRate: number, { inSpeech }: VADFrameContext): Promise<VADFrameDecision> {
+    const rms = frameRms(frame);
+
+    // Band-limit onto the model's rate so energy above 8 kHz doesn't alias into the speech band
+    this.append(sampleRate === MODEL_SR ? frame : this.resamplerFor(sampleRate).process(frame));
+
+    // Usually one window per frame; none for the first frame while the resampler fills its look-ahead
+    while (this.pendingLength >= MODEL_WINDOW) {
+      const input = new this.ort.Tensor("float32", this.pending.slice(0, MODEL_WINDOW), [1, MODEL_WINDOW]);
+      this.pending.copyWithin(0, MODEL_WINDOW, this.pendingLength);
+      this.pendingLength -= MODEL_WINDOW;
+      const out = await this.session.run({ input, state: this.state, sr: this.sr });
+      this.state = out["stateN"];
+      this.probability = (out["output"].data as Float32Array)[0];
+    }
+
+    const probability = this.probability;
+    const threshold = inSpeech ? this.negativeThreshold : this.positiveThreshold;
+    return { voiced: probability >= threshold, rms, probability };
+  }
+
+  reset() {
+    this.state = this.newState();
+    this.resampler?.reset();
+    this.pendingLength = 0;
+    this.probability = 0;
+  }
+
+  dispose() {
+    this.session.release().catch(() => {});
+  }
+
+  private resamplerFor(sampleRate: number) {
+    if (this.resampler?.inRate !== sampleRate) this.resampler = new PolyphaseResampler(sampleRate, MODEL_SR);
+    return this.resampler;
+  }
+
+  private append(samples: Float32Array) {
+    if (this.pendingLength + samples.length > this.pending.length) {
+      const grown = new Float32Array(this.pendingLength + samples.length + MODEL_WINDOW);
+      grown.set(this.pending.subarray(0, this.pendingLength));
+      this.pending = grown;
+    }
+    this.pending.set(samples, this.pendingLength);
+    this.pendingLength += samples.length;
+  }
+
+  private newState() {
+    return new this.ort.Tensor("float32", new Float32Array(STATE_DIMS.reduce((a, b) => a * b, 1)), STATE_DIMS);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Common contract for frame classifiers used by the voice recorder.
+ *
+ * An engine only decides whether a single analysis frame is speech; the
+ * start/stop triggers, hangover and segment buffering stay in the recorder so
+ * engines can be swapped at runtime without losing state.
+ */
+
+export type VADEngineKind = "energy" | "silero";
+
+export interface VADFrameContext {
+  /** Whether the recorder is currently inside a speech segment. */
+  inSpeech: boolean;
+}
+
+export interface VADFrameDecision {
+  voiced: boolean;
+  /** Frame RMS (linear, 0..1), reported by every engine for metering. */
+  rms: number;
+  /** Speech probability 0..1, only for engines that produce one. */
+  probability?: number;
+  /** Adaptive noise floor and the RMS threshold derived from it (energy engine). */
+  noiseRms?: number;
+  threshold?: number;
+}
+
+/** Throttled snapshot of the detector for live tuning displays. */
+export interface VADMeter {
+  rmsDb: number;
+  noiseFloorDb?: number;
+  thresholdDb?: number;
+  probability?: number;
+  voiced: boolean;
+}
+
+export interface VADEngine {
+  readonly kind: VADEngineKind;
+  /** Samples per analysis frame at the given input sample rate. */
+  frameSamples(sampleRate: number): number;
+  /** Classify one frame of `frameSamples(sampleRate)` samples. */
+  classify(frame: Float32Array, sampleRate: number, context: VADFrameContext): VADFrameDecision | Promise<VADFrameDecision>;
+  /** Forget adaptive state (noise floor, recurrent state) between recordings. */
+  reset(): void;
+  dispose(): void;
+}
+
+export const frameRms = (frame: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / frame.length) + 1e-12;
+};
+
+export const dbfs = (rms: number) => 20 * Math.log10(Math.max(1e-9, rms));
@@ -0,0 +1,196 @@
+import { EnergyVAD, type EnergyVADOptions } from "@/app/lib/vad/energy";
+import { SpeechSegmenter, type SegmenterOptions } from "@/app/lib/vad/segmenter";
+
+/**
+ * The "vad-capture" AudioWorklet: framing, RMS/noise tracking, the start/stop
+ * state machine and segment accumulation all run on the audio rendering
+ * thread. The main thread only receives speech start/end, finished segments
+ * and a ~10 Hz meter.
+ *
+ * The processor source is built at runtime from `EnergyVAD`, `SpeechSegmenter`
+ * and `vadCaptureModule` via `toString()`, so none of them may reference
+ * module-level bindings.
+ *
+ * In "external" mode (neural engines, which cannot run in the worklet) each
+ * analysis frame is transferred to the main thread for classification and
+ * handed back with the decision; segmentation still happens in the worklet.
+ */
+
+export type VADCaptureMode = "energy" | "external";
+
+export interface VADCaptureSettings {
+  mode: VADCaptureMode;
+  /** Frame size used in external mode; energy mode derives it from `energy.frameSizeMs`. */
+  externalFrameSamples?: number;
+  energy: EnergyVADOptions;
+  segmenter: SegmenterOptions;
+}
+
+/** Messages sent to the processor. */
+export type VADCaptureCommand =
+  | { type: "configure"; settings: VADCaptureSettings }
+  /** Decision for a frame posted in external mode; `samples` is that frame, transferred back. */
+  | { type: "decision"; samples: Float32Array; voiced: boolean; probability?: number }
+  /** Close any open segment, then answer with "flushed". */
+  | { type: "flush" };
+
+/** Messages posted by the processor. */
+export type VADCaptureEvent =
+  | { type: "speech"; speaking: boolean }
+  | { type: "segment"; samples: Float32Array; startSample: number; split: boolean }
+  | { type: "frame"; samples: Float32Array }
+  | { type: "meter"; rms: number; voiced: boolean; noiseRms?: number; threshold?: number; probability?: number }
+  | { type: "flushed" };
+
+export const VAD_CAPTURE_PROCESSOR = "vad-capture";
+
+declare const AudioWorkletProcessor: {
+  new (): { readonly port: MessagePort };
+};
+declare function registerProcessor(name: string, processor: unknown): void;
+
+// Runs inside AudioWorkletGlobalScope
+function vadCaptureModule(
+  name: string,
+  EnergyVADClass: typeof EnergyVAD,
+  SpeechSegmenterClass: typeof SpeechSegmenter
+) {
+  const METER_INTERVAL_S = 0.1;
+
+  class VADCaptureProcessor extends AudioWorkletProcessor {
+    sampleRate: number;
+    settings: VADCaptureSettings;
+    energy: EnergyVAD;
+    segmenter: SpeechSegmenter;
+    frame: Float32Array;
+    fill: number;
+    // Frame buffers returned by the main thread, reused for the next external frames
+    spare: Float32Array[];
+    meterEvery: number;
+    sinceMeter: number;
+    lastProbability: number | undefined;
+
+    constructor(options: { processorOptions: { sampleRate: number; settings: VADCaptureSettings } }) {
+      super();
+      const { sampleRate, settings } = options.processorOptions;
+      this.sampleRate = sampleRate;
+      this.settings = settings;
+      this.energy = new EnergyVADClass(settings.energy);
+      this.segmenter = new SpeechSegmenterClass(sampleRate, settings.segmenter);
+      this.frame = new Float32Array(this.frameSamples());
+      this.fill = 0;
+      this.spare = [];
+      this.meterEvery = Math.round(sampleRate * METER_INTERVAL_S);
+      this.sinceMeter = 0;
+      this.lastProbability = undefined;
+      this.port.onmessage = (ev: MessageEvent<VADCaptureCommand>) => this.onCommand(ev.data);
+    }
+
+    frameSamples() {
+      const { mode, externalFrameSamples } = this.settings;
+      return mode === "external" && externalFrameSamples ? externalFrameSamples : this.energy.frameSamples(this.sampleRate);
+    }
+
+    onCommand(command: VADCaptureCommand) {
+      if (command.type === "configure") {
+        this.settings = command.settings;
+        this.energy.configure(command.settings.energy);
+        this.segmenter.configure(command.settings.segmenter);
+        const size = this.frameSamples();
+        if (size !== this.frame.length) {
+          this.frame = new Float32Array(size);
+          this.fill = 0;
+          this.spare = [];
+        }
+        if (command.settings.mode === "energy") this.lastProbability = undefined;
+      } else if (command.type === "decision") {
+        this.lastProbability = command.probability;
+        this.segment(command.samples, command.voiced);
+        if (command.samples.length === this.frame.length) this.spare.push(command.samples);
+      } else if (command.type === "flush") {
+        const segment = this.segmenter.flush();
+        if (segment) this.postSegment(segment.samples, segment.startSample, false);
+        this.port.postMessage({ type: "speech", speaking: false });
+        this.port.postMessage({ type: "flushed" });
+      }
+    }
+
+    process(inputs: Float32Array[][]) {
+      const input = inputs[0] && inputs[0][0];
+      if (!input) return true;
+      const size = this.frame.length;
+      for (let i = 0; i < input.length; i++) {
+        this.frame[this.fill++] = input[i];
+        if (this.fill === size) {
+          this.fill = 0;
+          this.onFrame();
+        }
+      }
+      return true;
+    }
+
+    onFrame() {
+      const frame = this.frame;
+      const decision = this.energy.classify(frame, this.sampleRate, { inSpeech: this.segmenter.inSpeech });
+      const external = this.settings.mode === "external";
+
+      this.sinceMeter += frame.length;
+      if (this.sinceMeter >= this.meterEvery) {
+        this.sinceMeter = 0;
+        this.port.postMessage({
+          type: "meter",
+          rms: decision.rms,
+          voiced: external ? this.segmenter.inSpeech : decision.voiced,
+          noiseRms: external ? undefined : decision.noiseRms,
+          threshold: external ? undefined : decision.threshold,
+          probability: external ? this.lastProbability : undefined,
+        });
+      }
+
+      if (external) {
+        const out = this.spare.pop() || new Float32Array(frame.length);
+        out.set(frame);
+        this.port.postMessage({ type: "frame", samples: out }, [out.buffer]);
+      } else {
+        this.segment(frame, decision.voiced);
+      }
+    }
+
+    segment(frame: Float32Array, voiced: boolean) {
+      const events = this.segmenter.process(frame, voiced);
+      for (let i = 0; i < events.length; i++) {
+        const event = events[i];
+        if (event.type === "speech-start") this.port.postMessage({ type: "speech", speaking: true });
+        else if (event.type === "speech-end") this.port.postMessage({ type: "speech", speaking: false });
+        else this.postSegment(event.segment.samples, event.segment.startSample, !!event.segment.split);
+      }
+    }
+
+    postSegment(samples: Float32Array, startSample: number, split: boolean) {
+      this.port.postMessage({ type: "segment", samples, startSample, split }, [samples.buffer]);
+    }
+  }
+
+  registerProcessor(name, VADCaptureProcessor);
+}
+
+/**
+ * Registers the processor on `ctx` and creates a node for it. The node
+ * produces no audio; connect it to a muted gain so the graph keeps pulling it.
+ */
+export async function createVADCaptureNode(ctx: AudioContext, settings: VADCaptureSettings): Promise<AudioWorkletNode> {
+  const source = `(${vadCaptureModule})(${JSON.stringify(VAD_CAPTURE_PROCESSOR)}, (${EnergyVAD}), (${SpeechSegmenter}));`;
+  const url = URL.createObjectURL(new Blob([source], { type: "application/javascript" }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  return new AudioWorkletNode(ctx, VAD_CAPTURE_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: "explicit",
+    processorOptions: { sampleRate: ctx.sampleRate, settings },
+  });
+}
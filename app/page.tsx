@@ -1,68 +1,105 @@
 'use client'
 
-import React, {useEffect, useState} from 'react';
+import React, { useCallback, useEffect, useMemo, useReducer } from 'react';
+import Link from 'next/link';
 import { TranscriptionDisplay } from '@/app/components/TranscriptionDisplay';
 import { GlossDisplay } from '@/app/components/GlossDisplay';
 import { SiGMLDisplay } from '@/app/components/SiGMLDisplay';
 import { Card } from '@/app/components/ui/card';
-import { Accessibility, Zap, Languages, Brain } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/app/components/ui/tabs';
+import { Button } from '@/app/components/ui/button';
+import { Switch } from '@/app/components/ui/switch';
+import { Label } from '@/app/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/app/components/ui/select';
+import { toast } from '@/app/components/ui/sonner';
+import { Accessibility, Zap, Languages, Brain, History } from 'lucide-react';
 import { VADVoiceRecorder } from "@/app/components/VADVoiceRecorder";
+import { AudioFileUpload } from '@/app/components/AudioFileUpload';
+import { TextComposer } from '@/app/components/TextComposer';
+import { ExportMenu } from '@/app/components/ExportMenu';
+import { SessionImport } from '@/app/components/SessionImport';
+import {
+  initialPipelineState,
+  pipelineReducer,
+  selectCommittedSentences,
+  selectPendingSegments,
+  selectSegments,
+  type RestoredSegment,
+  type SegmentEvent,
+} from '@/app/lib/pipeline';
+import type { SessionBundle } from '@/app/lib/export';
+import { getSession } from '@/app/lib/history';
+import { useSessionHistory } from '@/app/hooks/use-session-history';
+import { useSegmentRevisions } from '@/app/hooks/use-segment-revisions';
+import { useSignPractice } from '@/app/hooks/use-sign-practice';
+import { useTranscriptionProvider } from '@/app/hooks/use-transcription-provider';
+import {
+  SELECTABLE_TRANSCRIPTION_PROVIDERS,
+  TRANSCRIPTION_PROVIDER_LABELS,
+  type TranscriptionProviderId,
+} from '@/app/lib/transcription';
 
-interface VADResult {
-  transcription?: string;
-  gloss?: string;
-  sigml?: string;
-  isNewSegment?: boolean;
-}
-
-interface SentenceSegment {
-  transcription: string;
-  gloss: string;
-  sigml: string;
-}
+const TRANSCRIPTION_LOCALE = 'en-US';
 
 export default function HomePage() {
-  const [sentences, setSentences] = useState<SentenceSegment[]>([]);
-  const [currentSegment, setCurrentSegment] = useState<Partial<SentenceSegment>>({});
-
-  const handleVADUpdate = async (result: VADResult) => {
-    console.log('VAD update received:', result);
-
-    if (result.transcription) {
-      // New transcription segment started - clear previous and set new
-      setCurrentSegment({
-        transcription: result.transcription
-      });
-    }
-
-    if (result.gloss) {
-      // Gloss received for current segment
-      setCurrentSegment(prev => ({
-        ...prev,
-        gloss: result.gloss
-      }));
-    }
-
-    if (result.sigml && result.isNewSegment) {
-      // Complete segment ready - add to sentences and trigger animation
-      const completeSegment: SentenceSegment = {
-        transcription: currentSegment.transcription || '',
-        gloss: result.gloss || currentSegment.gloss || '',
-        sigml: result.sigml
-      };
-
-      // Add to sentences - don't clear current segment yet
-      // It will be cleared when the next transcription starts
-      setSentences(prev => [...prev, completeSegment]);
-
-      // Trigger animation for this new segment
-      // The SiGML component will auto-play when it receives new content
-    }
+  const [pipeline, dispatch] = useReducer(pipelineReducer, initialPipelineState);
+
+  // Sentences released to the avatar (capture order), and everything else still in flight
+  const sentences = useMemo(() => selectCommittedSentences(pipeline), [pipeline]);
+  const pending = useMemo(() => selectPendingSegments(pipeline), [pipeline]);
+  const visibleSegments = useMemo(() => selectSegments(pipeline).filter(s => s.status !== 'failed'), [pipeline]);
+  const exportableSegments = useMemo(() => visibleSegments.filter(s => s.transcription), [visibleSegments]);
+  const currentSegment = pending.length > 0 ? pending[pending.length - 1] : {};
+
+  const { saveAudio, setSaveAudio, startNewSession, resumeSession } = useSessionHistory(pipeline, {
+    locale: TRANSCRIPTION_LOCALE,
+  });
+
+  // Corrected transcriptions and glosses are re-translated one segment at a time
+  const { reviseTranscription, reviseGloss, replayRequest } = useSegmentRevisions(dispatch);
+
+  // Speech-to-text for the microphone and file inputs, picked in the toolbar
+  const { provider: transcriptionProvider, setProvider: setTranscriptionProvider } = useTranscriptionProvider();
+
+  // Click a gloss sign to see it again on its own
+  const signPractice = useSignPractice();
+
+  // Swap in finished segments to present them again; SiGMLDisplay starts over on the new session
+  const replaceSegments = useCallback((segments: RestoredSegment[]) => {
+    dispatch({ type: 'restore', segments });
+  }, []);
+
+  // Reopened from /history (/?session=<id>): load it and replay it on the avatar
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('session');
+    if (!id) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    getSession(id)
+      .then(session => {
+        if (!session) throw new Error('Session not found');
+        resumeSession(session);
+        replaceSegments(session.segments);
+      })
+      .catch(e => toast.error(`Could not open session: ${e?.message || e}`));
+  }, [resumeSession, replaceSegments]);
+
+  // A prepared bundle is presented as a new session (and so lands in history too)
+  const handleImport = (bundle: SessionBundle) => {
+    startNewSession();
+    replaceSegments(bundle.segments);
   };
 
+  const handleVADUpdate = (event: SegmentEvent) => {
+    console.log('VAD update received:', event);
+    dispatch(event);
+  };
+
+  const handleSentencePlayed = (id: string) => dispatch({ type: 'played', id });
+
+  // The cleared sentences stay in history; whatever comes next starts a new session
   const handleClearResults = () => {
-    setSentences([]);
-    setCurrentSegment({});
+    startNewSession();
+    dispatch({ type: 'clear' });
   };
   return (
     <div className="min-h-screen bg-gradient-subtle flex flex-col">
@@ -94,23 +131,94 @@ export default function HomePage() {
 
             {/* Left Column - Controls and Text Results */}
             <div className="space-y-3 overflow-y-auto min-h-0">
-              {/* Voice Recorder */}
-              <VADVoiceRecorder onResult={handleVADUpdate} onClear={handleClearResults} />
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <div className="flex items-center space-x-2">
+                    <Switch id="save-audio" checked={saveAudio} onCheckedChange={setSaveAudio} />
+                    <Label htmlFor="save-audio" className="text-xs text-muted-foreground">Keep audio in history</Label>
+                  </div>
+                  <Select
+                    value={transcriptionProvider}
+                    onValueChange={value => setTranscriptionProvider(value as TranscriptionProviderId)}
+                  >
+                    <SelectTrigger className="h-8 w-[190px] text-xs" aria-label="Transcription provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SELECTABLE_TRANSCRIPTION_PROVIDERS.map(id => (
+                        <SelectItem key={id} value={id} className="text-xs">
+                          {TRANSCRIPTION_PROVIDER_LABELS[id]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center">
+                  <SessionImport onImport={handleImport} />
+                  <ExportMenu
+                    segments={exportableSegments}
+                    locale={TRANSCRIPTION_LOCALE}
+                    loadAudio={async id => pipeline.segments[id]?.audio}
+                  />
+                  <Button asChild variant="ghost" size="sm">
+                    <Link href="/history">
+                      <History className="mr-1 h-4 w-4" />
+                      History
+                    </Link>
+                  </Button>
+                </div>
+              </div>
+
+              {/* Input: live microphone, a recorded file or typed text; all feed the same pipeline */}
+              <Tabs defaultValue="microphone">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="microphone">Microphone</TabsTrigger>
+                  <TabsTrigger value="file">Audio file</TabsTrigger>
+                  <TabsTrigger value="text">Type</TabsTrigger>
+                </TabsList>
+                {/* Kept mounted so a running recording or upload survives switching tabs */}
+                <TabsContent value="microphone" forceMount className="data-[state=inactive]:hidden">
+                  <VADVoiceRecorder
+                    onResult={handleVADUpdate}
+                    onClear={handleClearResults}
+                    transcriptionLocale={TRANSCRIPTION_LOCALE}
+                    transcriptionProvider={transcriptionProvider}
+                  />
+                </TabsContent>
+                <TabsContent value="file" forceMount className="data-[state=inactive]:hidden">
+                  <AudioFileUpload
+                    onResult={handleVADUpdate}
+                    transcriptionLocale={TRANSCRIPTION_LOCALE}
+                    transcriptionProvider={transcriptionProvider}
+                  />
+                </TabsContent>
+                <TabsContent value="text" forceMount className="data-[state=inactive]:hidden">
+                  <TextComposer onResult={handleVADUpdate} />
+                </TabsContent>
+              </Tabs>
 
               {/* Results Display - Always visible */}
               <div className="space-y-3">
                 {/* Transcription Display */}
                 <TranscriptionDisplay
-                  transcription={sentences.map(s => s.transcription).join(' ') + (currentSegment.transcription && !sentences.find(s => s.transcription === currentSegment.transcription) ? ` ${currentSegment.transcription}` : '')}
+                  segments={visibleSegments}
                   isVisible={true}
                   language="English"
+                  onEditSegment={reviseTranscription}
                 />
 
                 {/* Gloss Display */}
                 <GlossDisplay
-                  glossText={sentences.map(s => s.gloss).join(' ') + (currentSegment.gloss && !sentences.find(s => s.gloss === currentSegment.gloss) ? ` ${currentSegment.gloss}` : '')}
+                  segments={visibleSegments}
                   isVisible={true}
                   originalText={sentences.map(s => s.transcription).join(' ')}
+                  onEditGloss={reviseGloss}
+                  onPlaySign={signPractice.playSign}
+                  activeSign={signPractice.loading ?? signPractice.practice}
+                  loopSign={signPractice.loop}
+                  onLoopSignChange={signPractice.setLoop}
+                  onStopSign={signPractice.stop}
+                  signError={signPractice.error}
                 />
               </div>
             </div>
@@ -122,8 +230,14 @@ export default function HomePage() {
                 <div className="w-full h-full">
                   <SiGMLDisplay
                     sentences={sentences}
+                    sessionKey={pipeline.session}
                     currentSegment={currentSegment}
                     isVisible={true}
+                    onSentencePlayed={handleSentencePlayed}
+                    replayRequest={replayRequest}
+                    practice={signPractice.practice}
+                    loopPractice={signPractice.loop}
+                    onPracticeDone={signPractice.finish}
                   />
                 </div>
               </div>
@@ -142,7 +256,7 @@ export default function HomePage() {
                   </div>
                   <h4 className="font-medium">Start VAD</h4>
                   <p className="text-sm text-muted-foreground">
-                    Click Start and speak naturally - AI detects speech automatically
+                    Click Start and speak naturally, or drop in a recording - AI detects speech automatically
                   </p>
                 </div>
                 <div className="space-y-2">
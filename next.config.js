@@ -13,6 +13,27 @@ const nextConfig = {
       },
     ];
   },
+  webpack(config, { isServer }) {
+    // onnxruntime-web spawns its own worker via new URL(import.meta.url); don't let webpack
+    // re-emit the bundle as an asset (Terser then rejects import.meta outside a module)
+    config.module.rules.push({
+      test: /onnxruntime-web[\\/]dist[\\/].*\.mjs$/,
+      parser: { url: false, worker: false },
+    });
+    if (!isServer) {
+      // Silero VAD model + onnxruntime-web WASM binary (its JS glue is bundled via
+      // onnxruntime-web/wasm), served from /_next/static/vad/
+      config.plugins.push(
+        new CopyPlugin({
+          patterns: [
+            { from: "node_modules/@ricky0123/vad-web/dist/silero_vad_v5.onnx", to: "static/vad/[name][ext]" },
+            { from: "node_modules/onnxruntime-web/dist/ort-wasm-simd-threaded.wasm", to: "static/vad/[name][ext]" },
+          ],
+        })
+      );
+    }
+    return config;
+  },
 }
 
 module.exports = nextConfig